@@ -1,8 +1,12 @@
 import {outTask} from "./out";
 import {MsgType} from "./msgs";
 import {Context} from "./context";
+import {clearCancelled} from "./subtasks";
+import {clearDeadline} from "./timers";
 
 export function taskResult(ctx: Context, result: any) {
+	clearCancelled(ctx.id());
+	clearDeadline(ctx.id());
 	outTask(MsgType.CallResult, ctx.id(), 0, JSON.stringify(result), null);
 }
 
@@ -14,5 +18,7 @@ export function taskFailed(ctx: Context, error: Error) {
 	} else {
 		error = new Error("invalid error type passed to taskFailed: " + typeof error);
 	}
+	clearCancelled(ctx.id());
+	clearDeadline(ctx.id());
 	outTask(MsgType.CallError, ctx.detach(), 0, error, null);
 }
\ No newline at end of file
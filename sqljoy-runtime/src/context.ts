@@ -1,21 +1,33 @@
 import { LOG_LEVEL, LogLevel, log } from "./log";
 import {prepareQuery, SQL} from "./sql";
 import {Result} from "./result";
-import {Validator} from "./validation";
+import {mapConstraintError, Validator} from "./validation";
 import {outTask} from "./out";
 import {MsgType} from "./msgs";
-import {newPromiseSubtask} from "./subtasks";
+import {isCancelled, newPromiseSubtask, SubtaskError} from "./subtasks";
 
 export class Context {
 	id: () => number;
+	/**
+	 * The unix timestamp in milliseconds by which the client needs the result, or 0 if there is no deadline.
+	 * Once it passes, the request is cancelled.
+	 */
+	readonly deadline: number;
+	/**
+	 * The session of the authenticated client, as established by login, or null if the client is anonymous.
+	 * Use {@link updateSession} to change it.
+	 */
+	session: Readonly<Record<string, any>> | null;
 
-	constructor(requestId: number) {
+	constructor(requestId: number, deadline: number = 0, session: Record<string, any> | null = null) {
 		// We use a closure constructor with a read-only accessor for requestId
 		// So that user code can't tamper with it.
 		// TODO Alternatively we could use a weak-ref map to Context, test which is faster.
 		this.id = () => {
 			return requestId;
 		};
+		this.deadline = deadline;
+		this.session = (session !== null) ? Object.freeze(Object.assign({}, session)) : null;
 	}
 
 	detach(): number {
@@ -24,6 +36,46 @@ export class Context {
 		return requestId;
 	}
 
+	/**
+	 * The number of milliseconds remaining until the deadline, or Infinity if there is no deadline.
+	 */
+	remainingMs(): number {
+		if (this.deadline === 0) {
+			return Infinity;
+		}
+		return Math.max(0, this.deadline - Date.now());
+	}
+
+	/**
+	 * True if the client cancelled this request, or its deadline passed. Any pending queries and subtasks for the request
+	 * have been rejected, and starting new ones fails. Long running server functions can check
+	 * this to stop early.
+	 */
+	cancelled(): boolean {
+		return isCancelled(this.id());
+	}
+
+	/**
+	 * Set the values in the session of the client, e.g. to log the user in after checking their credentials
+	 * or to record a preference. Values set to null are removed. The change applies to subsequent requests,
+	 * and in all connections of the client, including queries using %{SESSION.name} parameters.
+	 *
+	 * The server issues a new token to the client if the session changed, and ends the session if
+	 * it's left empty.
+	 *
+	 * @param values the session values to set, they must be serializable as JSON
+	 */
+	updateSession(values: Record<string, any>) {
+		const session: Record<string, any> = Object.assign({}, this.session, values);
+		for (const key in values) {
+			if (values[key] === null) {
+				delete session[key];
+			}
+		}
+		this.session = Object.freeze(session);
+		outTask(MsgType.UpdateSession, this.id(), 0, JSON.stringify(values), null);
+	}
+
 	/**
 	 * [[include:executeQuery.md]]
 	 *
@@ -32,11 +84,21 @@ export class Context {
 	 * @param validators zero or more validator functions
 	 */
 	async executeQuery(query: SQL, params?: Record<string, any>, ...validators: Validator[]): Promise<Result> {
-		const queryParams = await prepareQuery(query, params, validators, true);
+		const queryParams = await prepareQuery(query, params, validators);
+		if (this.cancelled()) {
+			throw new SubtaskError(this, "request cancelled");
+		}
 
 		const promise = newPromiseSubtask<Result>(this);
 		outTask(MsgType.Query, this.id(), promise._untrusted_subtask_id, query.query || query.text, queryParams);
-		return promise;
+		try {
+			return await promise;
+		} catch (e: any) {
+			// A failed query is rejected with the error result, which has the dbError details if the database raised it.
+			// Report constraint violations mapped with constraintErrors as validation errors, like the client would.
+			const dbError = (e instanceof SubtaskError && e.data != null) ? e.data.dbError : null;
+			throw mapConstraintError(validators, dbError != null ? dbError.constraint : null) || e;
+		}
 	}
 
 	rollback(): Promise<void> {
@@ -46,6 +108,9 @@ export class Context {
 	}
 
 	commit(): Promise<void> {
+		if (this.cancelled()) {
+			return Promise.reject(new SubtaskError(this, "request cancelled"));
+		}
 		const promise = newPromiseSubtask<void>(this);
 		outTask(MsgType.Query, this.id(), promise._untrusted_subtask_id, "commit", null);
 		return promise;
@@ -1,4 +1,4 @@
-import {SQL, isSQL, mergeParams} from "./sql";
+import {SQL, isSQL, merge as mergeCompiled, mergeParams, schema} from "./sql";
 import {isString} from "./util";
 
 function isDynamicSQL(obj: any): boolean {
@@ -32,7 +32,7 @@ function isDynamicSQL(obj: any): boolean {
  *
  * @param noescape
  */
-(globalThis as any).sql = function(noescape: string): SQL {
+function sql(noescape: string): SQL {
     if (isString(noescape)) {
         // Return an unescaped SQL query or fragment
         return {
@@ -45,8 +45,6 @@ function isDynamicSQL(obj: any): boolean {
     throw Error("query was not compiled, see compiler output");
 }
 
-const mergeCompiled = sql.merge;
-
 /**
  * @internal
  * merge provides runtime support for the compiler. It merges one or more query fragments into a parent query
@@ -62,15 +60,21 @@ const mergeCompiled = sql.merge;
  * @param query Parent query that includes other SQL queries or fragments with ${fragment}
  * @param fragments One or more fragments created with the sql template tag or function to merge into the parent query
  */
-sql.merge = function(query: SQL, ...fragments: SQL[]): SQL {
-    query = mergeCompiled(query, ...fragments);
+function merge(query: SQL, ...fragments: SQL[]): SQL {
     if (isDynamicSQL(query) || fragments.some(q => isDynamicSQL(q))) {
         // If any fragment is dynamic, the whole query will be dynamic
-        query = replaceFragments(query, fragments);
+        return replaceFragments(query, fragments);
     }
-    return query;
+    return mergeCompiled(query, ...fragments);
 }
 
+sql.merge = merge;
+// The same as on the client, see sql.ts
+sql.schema = schema;
+
+// Replace the client version of sql
+(globalThis as any).sql = sql;
+
 /**
  * Replaces fragments into the query text and erases the query hash (making the resulting query a dynamic query.)
  * @param query to flatten
@@ -80,13 +84,16 @@ function replaceFragments(query: SQL, fragments: SQL[]): SQL {
         fragments = query.fragments.concat(fragments);
     }
 
-    let {text, params} = query;
+    let {text, params, schema} = query;
     let i = 0;
     text = text!.replace(/%{}/g, () => {
         if (i >= fragments.length) {
             throw Error("there are more query fragment placeholders '%{}' than there are fragments");
         }
         params = mergeParams(params, fragments[i].params);
+        if (fragments[i].schema) {
+            schema = Object.assign({}, schema, fragments[i].schema);
+        }
         return fragments[i++].text!;
     });
     if (i !== fragments.length) {
@@ -98,6 +105,7 @@ function replaceFragments(query: SQL, fragments: SQL[]): SQL {
         query: "", // mark this as a dynamic query by clearing the hash
         text,
         params,
+        schema,
     };
 }
 
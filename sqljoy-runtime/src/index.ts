@@ -11,4 +11,7 @@ export {Context} from "./context";
 import "./dynamic_sql";
 export const sql = (globalThis as any).sql;
 export {SQL, isSQL} from "./sql";
-export * from "./validation";
\ No newline at end of file
+export * from "./validation";
+export * from "./validators";
+export {ParamSchema} from "./schema";
+export {PgType, Range, TypeDecoder, setTypeDecoder} from "./pgtypes";
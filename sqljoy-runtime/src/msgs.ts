@@ -8,6 +8,7 @@ export enum MsgType {
     Query = 151,
     CreateTimer,
     DeleteTimer,
+    UpdateSession,
 }
 
 export enum RequestFlags {
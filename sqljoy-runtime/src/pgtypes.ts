@@ -0,0 +1 @@
+../../sqljoy/src/pgtypes.ts
\ No newline at end of file
@@ -0,0 +1 @@
+../../sqljoy/src/schema.ts
\ No newline at end of file
@@ -39,6 +39,13 @@ interface Executor {
 const SUBTASKS = new Map<number, Executor>();
 let SUBTASK_ID_SEQUENCE = Math.random() * 0x7fffffff;
 
+// Requests that have started but haven't finished yet.
+const RUNNING = new Set<number>();
+// Requests that have been cancelled but haven't finished yet. The task function keeps running
+// after its subtasks are rejected, so we remember these to stop it from starting new subtasks.
+// That includes a request cancelled while it has no outstanding subtasks, e.g. while it's validating.
+const CANCELLED = new Set<number>();
+
 export class SubtaskError extends Error {
 	readonly ctx: Context | null;
 	readonly data: any;
@@ -92,11 +99,16 @@ export function resumeTask(requestId: number, subtaskId: number, data: any) {
 }
 
 /// cancelRequest cancels all subtask promises outstanding for a request (by rejecting them)
-export function cancelRequest(requestId: number) {
+/// and causes any new subtasks for the request to fail, until the request finishes.
+export function cancelRequest(requestId: number, reason: string = "request cancelled") {
+	if (RUNNING.has(requestId)) {
+		// Otherwise it has already finished, and it would never be forgotten
+		CANCELLED.add(requestId);
+	}
 	for (let [i, {reject, ctx}] of SUBTASKS) {
 		if (reject != null && ctx != null && ctx.id() == requestId) {
 			try {
-				reject(new SubtaskError(ctx, "request cancelled"));
+				reject(new SubtaskError(ctx, reason));
 			} catch(e) {
 				log(LogLevel.Error, "promise reject threw: " + (e.message || e.toString()), requestId, i);
 			}
@@ -106,6 +118,21 @@ export function cancelRequest(requestId: number) {
 	}
 }
 
+export function isCancelled(requestId: number): boolean {
+	return CANCELLED.has(requestId);
+}
+
+/// startRequest records that a request is running, so it can be cancelled.
+export function startRequest(requestId: number) {
+	RUNNING.add(requestId);
+}
+
+/// clearCancelled forgets a (possibly cancelled) request, called once the request finishes.
+export function clearCancelled(requestId: number) {
+	RUNNING.delete(requestId);
+	CANCELLED.delete(requestId);
+}
+
 function setSubtask(executor: Executor): number {
 	let subtaskId = (SUBTASK_ID_SEQUENCE + 1) & 0x7fffffff;
 	SUBTASK_ID_SEQUENCE = subtaskId;
@@ -2,15 +2,30 @@ import {OutTask, setOutbox, getOutboxLength} from "./out";
 import {setDate} from "./date";
 import {seedRandom} from "./rand";
 import {log, LogLevel} from "./log";
-import {cancelRequest, resumeTask} from "./subtasks";
+import {cancelRequest, resumeTask, startRequest} from "./subtasks";
 import {REQUEST_IS_SUBTASK} from "./msgs";
 import {Context} from "./context";
 import {isString} from "./util";
 import type {Validator} from "./validation";
 import {configure} from "./config";
 import {taskFailed, taskResult} from "./actions";
+import {setDeadline} from "./timers";
 
-type InTask = [number | null, any, any];
+/**
+ * RequestInfo is the metadata about a request passed by the server along with a task.
+ */
+interface RequestInfo {
+    /**
+     * Unix timestamp in milliseconds by which the request must finish, or 0 for none.
+     */
+    deadline?: number;
+    /**
+     * The session of the authenticated client, if any.
+     */
+    session?: Record<string, any>;
+}
+
+type InTask = [number | null, any, any, (RequestInfo | null)?];
 
 const userTasks: Record<string, (...args : any[]) => any> = {};
 
@@ -58,24 +73,31 @@ export function runTasks(tasks: InTask[], results: OutTask[], tasks_length: numb
                 log(LogLevel.Error, "runTasks: expected string function name as arg1 to runTask", requestId, 0);
                 continue;
             }
-            runTask(requestId, arg1, task[2]);
+            runTask(requestId, arg1, task[2], task[3] || null);
         }
 
         // Cleanup task values so they can be garbage collected once no longer referenced
         task[0] = null;
         task[1] = null;
         task[2] = null;
+        task[3] = null;
     }
     return getOutboxLength();
 }
 
-function runTask(requestId: number, name: string, arg: any) {
+function runTask(requestId: number, name: string, arg: any, info: RequestInfo | null) {
     const taskFunction = isString(name) ? (userTasks as any)[name] || runtimeTasks[name] : undefined;
-    const ctx = new Context(requestId);
+    const deadline = (info !== null && typeof info.deadline === "number") ? info.deadline : 0;
+    const session = (info !== null && info.session != null) ? info.session : null;
+    const ctx = new Context(requestId, deadline, session);
     if (taskFunction === undefined) {
         taskFailed(ctx, new Error(`task not found: ${name}`));
         return;
     }
+    startRequest(requestId);
+    if (deadline !== 0) {
+        setDeadline(requestId, deadline);
+    }
 
     let maybePromise;
     try {
@@ -1,8 +1,10 @@
 import {outTask} from "./out";
 import {MsgType} from "./msgs";
-import {clearSubtask, newCallbackSubtask} from "./subtasks";
+import {cancelRequest, clearSubtask, newCallbackSubtask} from "./subtasks";
 
 let TIMERS: Set<number> = new Set();
+// requestId: timer subtaskId for requests with a deadline. These don't count against MAX_TIMERS.
+let DEADLINES: Map<number, number> = new Map();
 let ACTIVE_TIMERS: number = 0;
 let MAX_TIMERS: number = 10;
 
@@ -57,3 +59,30 @@ export function setMaxTimers(limit: number) {
     outTask(MsgType.CreateTimer, 0, subtaskId, -milliseconds, null);
     return subtaskId;
 };
+
+/**
+ * setDeadline cancels the request if it hasn't finished by the deadline (a unix timestamp in milliseconds.)
+ */
+export function setDeadline(requestId: number, deadline: number) {
+    clearDeadline(requestId);
+
+    const subtaskId = newCallbackSubtask(() => {
+        DEADLINES.delete(requestId);
+        clearSubtask(subtaskId);
+        cancelRequest(requestId, "deadline exceeded");
+    });
+    DEADLINES.set(requestId, subtaskId);
+    outTask(MsgType.CreateTimer, 0, subtaskId, Math.max(0, deadline - Date.now()), null);
+}
+
+/**
+ * clearDeadline removes the deadline for the request, if any. Called once the request finishes.
+ */
+export function clearDeadline(requestId: number) {
+    const subtaskId = DEADLINES.get(requestId);
+    if (subtaskId !== undefined) {
+        DEADLINES.delete(requestId);
+        clearSubtask(subtaskId);
+        outTask(MsgType.DeleteTimer, 0, subtaskId, null, null);
+    }
+}
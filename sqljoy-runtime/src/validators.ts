@@ -0,0 +1 @@
+../../sqljoy/src/validators.ts
\ No newline at end of file
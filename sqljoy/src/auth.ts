@@ -0,0 +1,34 @@
+/**
+ * AuthState is the authentication state of a client, established with {@link SQLJoy.login}.
+ */
+export interface AuthState {
+    /**
+     * The opaque token identifying the authenticated session. It's sent with the HELLO
+     * command on every connection.
+     */
+    token: string;
+    /**
+     * The time the token expires, in milliseconds since the epoch, or 0 if it doesn't expire.
+     * The client refreshes the token automatically before then.
+     */
+    expiresAt: number;
+    /**
+     * Information about the authenticated user returned by the server, e.g. the user id.
+     */
+    user: Record<string, any>;
+}
+
+/**
+ * OnAuthChange is the type of the callback passed to {@link SQLJoy.onAuthChange}.
+ *
+ * @param auth the new authentication state, or null if the client is no longer authenticated
+ */
+export type OnAuthChange = (auth: AuthState | null) => void;
+
+/**
+ * @internal
+ * Check if obj is a valid AuthState returned by the server.
+ */
+export function isAuthState(obj: any): obj is AuthState {
+    return obj != null && typeof obj.token === "string" && obj.token !== "" && typeof obj.expiresAt === "number";
+}
@@ -0,0 +1,218 @@
+// The binary protocol is only used for results sent from the server, requests are always text.
+// It exists because decoding large results from the JSON text protocol is slow and allocates
+// a lot of memory on low-end devices. The server only uses it if the client says it accepts
+// it in the HELLO command, and only for query results, everything else is sent as text.
+//
+// All integers are little-endian. A varint is an unsigned LEB128 integer of up to 53 bits.
+// A string is a varint byte length followed by that many bytes of UTF-8.
+//
+// Frame:
+//   u8      frame type (FrameType)
+//   u32     request id
+//   ...     frame type specific body
+//
+// FrameType.Rows body:
+//   varint  rows affected
+//   varint  number of columns
+//   per column:
+//     string  column name
+//     u8      column type (ColumnType)
+//     varint  PostgreSQL type OID, 0 if unknown (only if Capability.ColumnTypes was negotiated)
+//   varint  number of rows
+//   per row:
+//     ceil(columns/8) bytes  null bitmap, bit (i % 8) of byte (i / 8) is set if column i is null
+//     per non-null column: the value encoded according to the column type
+//
+// FrameType.StreamRows and FrameType.StreamEnd have the same body as Rows. They carry a chunk of
+// the result of a streamed query, StreamRows when more chunks follow, StreamEnd for the last one.
+// Rows affected is only meaningful in the last chunk.
+//
+// With column types, values are decoded by ResultRows after the column type decoding, so values of
+// PostgreSQL types that need it (e.g. timestamps, or int8 beyond 53 bits) must be sent as Text in
+// PostgreSQL's text format, as they would be in the JSON protocol. That includes json and jsonb.
+
+import {ResultRows} from "./result.js";
+import {Errors, ServerError} from "./errors.js";
+
+/**
+ * @internal
+ */
+export enum FrameType {
+    Rows = 1,
+    StreamRows = 2,
+    StreamEnd = 3,
+}
+
+enum ColumnType {
+    /**
+     * A string containing the value encoded as JSON. Used for any type without a more specific encoding.
+     */
+    JSON,
+    /**
+     * A u8 that is 0 for false, anything else for true.
+     */
+    Bool,
+    /**
+     * A zigzag encoded varint.
+     */
+    Int,
+    /**
+     * A float64.
+     */
+    Float,
+    /**
+     * A string.
+     */
+    Text,
+    /**
+     * A varint length followed by that many bytes, decoded as a Uint8Array.
+     */
+    Bytes,
+}
+
+/**
+ * @internal
+ * A decoded binary frame.
+ */
+export interface BinaryResult {
+    id: number;
+    result: ResultRows;
+    /**
+     * True if this is a chunk of a streamed result, and more chunks follow.
+     */
+    more: boolean;
+}
+
+const utf8 = new TextDecoder();
+
+class Reader {
+    protected view: DataView;
+    protected bytes: Uint8Array;
+    protected pos: number = 0;
+
+    constructor(buf: ArrayBuffer) {
+        this.view = new DataView(buf);
+        this.bytes = new Uint8Array(buf);
+    }
+
+    u8(): number {
+        this.check(1);
+        return this.view.getUint8(this.pos++);
+    }
+
+    u32(): number {
+        this.check(4);
+        const n = this.view.getUint32(this.pos, true);
+        this.pos += 4;
+        return n;
+    }
+
+    f64(): number {
+        this.check(8);
+        const n = this.view.getFloat64(this.pos, true);
+        this.pos += 8;
+        return n;
+    }
+
+    varint(): number {
+        // Bitwise operators truncate to 32 bits, so use multiplication to support up to 53 bits
+        let n = 0;
+        let scale = 1;
+        for (let shift = 0; shift < 56; shift += 7) {
+            const b = this.u8();
+            n += (b & 0x7f) * scale;
+            if ((b & 0x80) === 0) {
+                return n;
+            }
+            scale *= 128;
+        }
+        throw new ServerError("invalid binary frame: varint too long", Errors.BadResult);
+    }
+
+    zigzag(): number {
+        const n = this.varint();
+        return (n % 2 === 0) ? n / 2 : -(n + 1) / 2;
+    }
+
+    bytesOf(length: number): Uint8Array {
+        this.check(length);
+        const b = this.bytes.subarray(this.pos, this.pos + length);
+        this.pos += length;
+        return b;
+    }
+
+    string(): string {
+        return utf8.decode(this.bytesOf(this.varint()));
+    }
+
+    value(type: ColumnType): any {
+        switch (type) {
+            case ColumnType.JSON:
+                return JSON.parse(this.string());
+            case ColumnType.Bool:
+                return this.u8() !== 0;
+            case ColumnType.Int:
+                return this.zigzag();
+            case ColumnType.Float:
+                return this.f64();
+            case ColumnType.Text:
+                return this.string();
+            case ColumnType.Bytes:
+                // Copy it so the result doesn't keep the whole frame alive
+                return this.bytesOf(this.varint()).slice();
+            default:
+                throw new ServerError(`invalid binary frame: unknown column type ${type}`, Errors.BadResult);
+        }
+    }
+
+    protected check(n: number) {
+        if (this.pos + n > this.bytes.length) {
+            throw new ServerError("invalid binary frame: unexpected end of frame", Errors.BadResult);
+        }
+    }
+}
+
+/**
+ * @internal
+ * Decode a binary frame from the server.
+ *
+ * @throws {@link ServerError} with type {@link Errors.BadResult} if the frame is invalid.
+ *
+ * @param buf the frame
+ * @param columnTypes true if the frame includes the PostgreSQL type of each column
+ */
+export function decodeBinaryResult(buf: ArrayBuffer, columnTypes: boolean = false): BinaryResult {
+    const r = new Reader(buf);
+    const frameType = r.u8();
+    const id = r.u32();
+    if (frameType !== FrameType.Rows && frameType !== FrameType.StreamRows && frameType !== FrameType.StreamEnd) {
+        throw new ServerError(`invalid binary frame: unknown frame type ${frameType}`, Errors.BadResult);
+    }
+
+    const affected = r.varint();
+    const numColumns = r.varint();
+    const columns: string[] = [];
+    const types: ColumnType[] = [];
+    const pgTypes: number[] = [];
+    for (let i = 0; i < numColumns; i++) {
+        columns.push(r.string());
+        types.push(r.u8());
+        if (columnTypes) {
+            pgTypes.push(r.varint());
+        }
+    }
+
+    const numRows = r.varint();
+    const bitmapLength = (numColumns + 7) >> 3;
+    const rows: any[][] = new Array(numRows);
+    for (let i = 0; i < numRows; i++) {
+        const nulls = r.bytesOf(bitmapLength);
+        const row = new Array(numColumns);
+        for (let j = 0; j < numColumns; j++) {
+            row[j] = (nulls[j >> 3] & (1 << (j & 7))) !== 0 ? null : r.value(types[j]);
+        }
+        rows[i] = row;
+    }
+
+    return {id, result: new ResultRows(columns, rows, affected, columnTypes ? pgTypes : null), more: frameType === FrameType.StreamRows};
+}
@@ -0,0 +1,156 @@
+import {Result, ResultRows} from "./result.js";
+import {bigIntReplacer} from "./pgtypes.js";
+
+/**
+ * CacheOptions enables caching the result of a query on the client, see {@link RequestOptions.cache}.
+ */
+export interface CacheOptions {
+    /**
+     * The time in milliseconds the result is fresh for. Identical queries executed before then
+     * return the cached result without contacting the server.
+     */
+    ttlMs: number;
+    /**
+     * If true, once the result is stale it's still returned immediately, and the query is executed
+     * in the background to refresh the cache for the next time.
+     *
+     * @defaultValue false
+     */
+    staleWhileRevalidate?: boolean;
+    /**
+     * Tags to invalidate the result by with {@link SQLJoy.invalidateCache}.
+     */
+    tags?: string[];
+}
+
+/**
+ * CacheFilter selects the cached results to remove with {@link SQLJoy.invalidateCache}.
+ * An empty filter matches all results.
+ */
+export interface CacheFilter {
+    /**
+     * Remove the results of the query with this hash ({@link SQL.query}), with any params.
+     */
+    query?: string;
+    /**
+     * Remove results cached with this tag.
+     */
+    tag?: string;
+}
+
+interface CacheEntry {
+    query: string;
+    tags: string[];
+    result: Result;
+    expiresAt: number;
+}
+
+/**
+ * @internal
+ * Returns the cache key for a query with the given prepared params and fragments.
+ */
+export function cacheKey(query: string, prepared: {params: Record<string, any>, fragments: string[]}): string {
+    return `${query};${prepared.fragments.join(",")};${JSON.stringify(prepared.params, bigIntReplacer)}`;
+}
+
+/**
+ * @internal
+ * copyResult returns a copy of a ResultRows object, so that callers sharing a result don't
+ * share the iterator state. Other results are returned unchanged.
+ */
+export function copyResult(result: Result): Result {
+    if (result instanceof ResultRows) {
+        const copy = new ResultRows(result.columns, result.rows, result.affected);
+        // The rows were already decoded
+        copy.types = result.types;
+        return copy;
+    }
+    return result;
+}
+
+/**
+ * @internal
+ * QueryCache stores query results by cache key and tracks in-flight reads so identical
+ * reads can share a single request.
+ */
+export class QueryCache {
+    protected entries: Map<string, CacheEntry> = new Map();
+    protected inFlight: Map<string, {promise: Promise<Result>, generation: number}> = new Map();
+    /**
+     * Incremented by each call to invalidate. Reads started before then may return results from before
+     * the invalidation (e.g. for the previous user), so they aren't stored or shared.
+     */
+    generation: number = 0;
+    protected maxEntries: number;
+
+    constructor(maxEntries: number) {
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Returns the cached result for key and whether it's still fresh, or undefined if there is none.
+     */
+    get(key: string): {result: Result, fresh: boolean} | undefined {
+        const entry = this.entries.get(key);
+        if (entry === undefined) {
+            return undefined;
+        }
+        return {result: copyResult(entry.result), fresh: entry.expiresAt > (new Date()).getTime()};
+    }
+
+    /**
+     * Store the result for key, unless the cache was invalidated since the read started at generation.
+     */
+    set(key: string, query: string, result: Result, options: CacheOptions, generation: number) {
+        if (generation !== this.generation) {
+            return;
+        }
+        // Re-inserting moves it to the end, so the first key is always the least recently stored
+        this.entries.delete(key);
+        this.entries.set(key, {
+            query,
+            tags: options.tags || [],
+            result,
+            expiresAt: (new Date()).getTime() + options.ttlMs,
+        });
+        if (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    /**
+     * Returns the in-flight request for key if there is one, otherwise starts one with fetch.
+     * Each caller gets its own copy of the result.
+     */
+    dedupe(key: string, fetch: () => Promise<Result>): Promise<Result> {
+        const inFlight = this.inFlight.get(key);
+        if (inFlight !== undefined && inFlight.generation === this.generation) {
+            return inFlight.promise.then(copyResult);
+        }
+        const entry = {promise: fetch(), generation: this.generation};
+        this.inFlight.set(key, entry);
+        const done = () => {
+            if (this.inFlight.get(key) === entry) {
+                this.inFlight.delete(key);
+            }
+        };
+        entry.promise.then(done, done);
+        return entry.promise.then(copyResult);
+    }
+
+    /**
+     * Remove the results matching the filter, or all results if it's empty.
+     */
+    invalidate(filter: CacheFilter = {}) {
+        this.generation++;
+        if (!filter.query && !filter.tag) {
+            this.entries.clear();
+            return;
+        }
+        this.entries.forEach((entry, key) => {
+            if ((filter.query && entry.query === filter.query) || (filter.tag && entry.tags.indexOf(filter.tag) >= 0)) {
+                this.entries.delete(key);
+            }
+        });
+    }
+}
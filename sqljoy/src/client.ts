@@ -1,12 +1,25 @@
 import {Settings, validateSettings, versionMajor, versionMinor, WaitBehavior} from "./config.js";
-import {getServerUrl} from "./discover";
+import {markServerFailed, markServerHealthy, selectServer, ServerSelection} from "./discover.js";
 import {prepareQuery, SQL} from "./sql.js";
-import {validate, ValidationError, Validator} from "./validation";
-import {isJSONResult, isRowsResult, Result, ResultRows, ServerEvent} from "./result.js";
-import {addClient, defaultVersionChangeHandler, removeClient} from "./registry";
-import {updateUnloadHandler} from "./unload";
-import {isString, wait} from "./util.js";
-import {Errors, ServerError} from "./errors";
+import {mapConstraintError, validate, ValidationError, Validator} from "./validation.js";
+import {isJSONResult, isRowsResult, JSONBatchItem, Result, ResultRows, ServerEvent} from "./result.js";
+import {addClient, defaultVersionChangeHandler, removeClient} from "./registry.js";
+import {updateUnloadHandler} from "./unload.js";
+import {isBrowser, isString, randomId} from "./util.js";
+import {AbortError, BatchError, errorTypeForCode, Errors, ServerError} from "./errors.js";
+import {requestMeta, RequestOptions, splitOptions} from "./options.js";
+import {decodeBinaryResult} from "./binary.js";
+import {OfflineQueue, QueuedCommand} from "./offline.js";
+import {OnDataChange, Subscription} from "./subscription.js";
+import {CacheFilter, cacheKey, QueryCache} from "./cache.js";
+import {Command, compose, Middleware, Next} from "./middleware.js";
+import {createTransport, Transport, TransportState, TransportType} from "./transport.js";
+import {AuthState, isAuthState, OnAuthChange} from "./auth.js";
+import {SharedTransport} from "./shared.js";
+import {Capabilities, Capability, negotiate, unsupported} from "./protocol.js";
+import {PaginateOptions, Paginator} from "./paginate.js";
+import {RowStream} from "./stream.js";
+import {bigIntReplacer} from "./pgtypes.js";
 
 /**
  * An enum representing possible states of the SQLJoy client.
@@ -34,10 +47,46 @@ export enum ClientStatus {
     Closed,
 }
 
-enum CommandType {
+/**
+ * OnStatusChange is the type of the callback passed to {@link SQLJoy.onStatusChange}.
+ *
+ * @param status the new status of the client
+ * @param previous the status before the change
+ */
+export type OnStatusChange = (status: ClientStatus, previous: ClientStatus) => void;
+
+/**
+ * The type of a {@link Command} sent to the server.
+ */
+export enum CommandType {
     HELLO = "H",
     QUERY = "Q",
     CALL = "C",
+    CANCEL = "X",
+    SUBSCRIBE = "S",
+    UNSUBSCRIBE = "U",
+    BATCH = "B",
+    AUTH = "A",
+    STREAM = "R",
+    MORE = "M",
+}
+
+/**
+ * BatchQuery is a query to execute as part of a batch with {@link SQLJoy.batch}.
+ */
+export interface BatchQuery {
+    /**
+     * The compiled SQL query to execute
+     */
+    query: SQL;
+    /**
+     * Override bound ${expr} parameters or specify deferred %{name} query parameters
+     */
+    params?: Record<string, any>;
+    /**
+     * Zero or more validator functions that will run on both client and server
+     */
+    validators?: Validator[];
 }
 
 /**
@@ -54,10 +103,11 @@ export interface Call {
  * ConnectionError is thrown if the transport connection is interrupted during a query/call.
  *
  * @remarks The client is still usable, and subsequent queries/calls will establish a new connection.
- * You may want to retry the task, but be careful if it's not idempotent - it could have already executed
+ * Requests marked safe to retry with {@link RequestOptions} are sent again automatically after reconnecting.
+ * You may want to retry other tasks, but be careful if it's not idempotent - it could have already executed
  * on the server before the connection was interrupted.
  */
-class ConnectionError extends Error {
+export class ConnectionError extends Error {
     constructor(message: string = "connection closed") {
         super(message);
         this.name = "ConnectionError";
@@ -65,16 +115,109 @@ class ConnectionError extends Error {
 }
 
 class QueryInProgress {
+    cmd: CommandType;
+    target: string;
+    args: Record<string, any> | any[];
+    options: RequestOptions | null;
+    /**
+     * True if the command was written to a connection. It may or may not have reached the server.
+     */
+    sent: boolean = false;
     resolve: (result: Result | any) => void;
     reject: (reason: Error) => void;
+    /**
+     * The listener registered on options.signal, removed once the command completes.
+     */
+    onAbort: (() => void) | null = null;
+    /**
+     * The time (in milliseconds since the epoch) by which the command must complete, or 0 for no limit.
+     */
+    deadline: number = 0;
+    timer: ReturnType<typeof setTimeout> | null = null;
+    /**
+     * Metadata sent along with the command, set by middleware.
+     */
+    headers: Record<string, any> = {};
+    /**
+     * The persisted command if this command is in the offline queue.
+     */
+    queued: QueuedCommand | null = null;
+    /**
+     * True once the command has been resolved or rejected.
+     */
+    settled: boolean = false;
+    /**
+     * True if the command was aborted, rather than completed or timed out.
+     */
+    aborted: boolean = false;
+    /**
+     * The stream receiving the chunks of a streamed query.
+     */
+    stream: RowStream | null = null;
+
+    constructor(cmd: CommandType, target: string, args: Record<string, any> | any[], options: RequestOptions | null,
+                resolve: (result: Result | any) => void, reject: (reason: Error) => void) {
+        this.cmd = cmd;
+        this.target = target;
+        this.args = args;
+        this.options = options;
+        this.resolve = (result: Result | any) => {
+            this.done();
+            resolve(result);
+        };
+        this.reject = (reason: Error) => {
+            this.done();
+            reject(reason);
+        };
+    }
+
+    /**
+     * Encode the command as a text frame with the given request id.
+     *
+     * The frame is `${cmd}${id};${target};${JSON args}`, optionally followed by a newline and
+     * a JSON object of request metadata. JSON.stringify never outputs a raw newline, so it's
+     * safe to use as a separator.
+     */
+    encode(id: number): string {
+        const msg = `${this.cmd}${id};${this.target};${JSON.stringify(this.args, bigIntReplacer)}`;
+        let meta = requestMeta(this.options);
+        for (let key in this.headers) {
+            if (this.headers.hasOwnProperty(key)) {
+                meta = meta || {};
+                meta[key] = this.headers[key];
+            }
+        }
+        if (this.deadline !== 0) {
+            // Send the time remaining rather than the deadline, so it works even if the clocks differ
+            meta = meta || {};
+            meta.timeoutMs = Math.max(1, this.deadline - (new Date()).getTime());
+        }
+        return (meta === null) ? msg : `${msg}\n${JSON.stringify(meta)}`;
+    }
 
-    constructor(resolve: (result: Result | any) => void, reject: (reason: Error) => void) {
-        this.resolve = resolve;
-        this.reject = reject;
+    /**
+     * True if the command can safely be sent again after the connection was lost.
+     * That's the case if it was never sent, or it was marked as a read or given an idempotency key.
+     * A streamed query may already have delivered rows, so it can only be sent again if it was never sent.
+     */
+    canRetry(): boolean {
+        return !this.sent || (this.stream === null && this.options !== null && (this.options.readOnly || !!this.options.idempotencyKey));
     }
 
-    cancel() {
-        this.reject(new ConnectionError());
+    cancel(error: Error = new ConnectionError()) {
+        this.reject(error);
+    }
+
+    protected done() {
+        this.settled = true;
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.onAbort !== null) {
+            this.options!.signal!.removeEventListener("abort", this.onAbort);
+            this.onAbort = null;
+        }
     }
 }
 
@@ -92,6 +235,16 @@ export class SQLJoy {
      * The url of the server this client is connected to.
      */
     url: string;
+    /**
+     * Why the client chose the server it's connected to, including what's known about
+     * the other candidates. Useful for debugging connection problems.
+     */
+    serverSelection: ServerSelection | null = null;
+    /**
+     * The protocol features supported by the server, negotiated when connecting. Null until the first
+     * handshake completes.
+     */
+    capabilities: Capabilities | null = null;
     /**
      * The settings object this client was created with.
      */
@@ -106,11 +259,60 @@ export class SQLJoy {
      * backend session can be associated with the frontend events.
      */
     session: string | null = null;
+    /**
+     * The authentication state established by {@link login}, or null if the client is anonymous.
+     * It can be saved and passed to a later client in {@link Settings.auth}.
+     */
+    auth: AuthState | null = null;
     protected connecting: boolean = false;
     protected connectedAt: number = 0;
     protected lastId: number = 0;
-    protected sock: WebSocket | null = null;
+    protected transport: Transport | null = null;
+    /**
+     * True if the current transport has received a message. If a transport is closed before
+     * that, we assume it can't reach the server and try the other transport in TransportType.Auto mode.
+     */
+    protected transportUsed: boolean = false;
+    protected useHTTP: boolean = false;
+    protected connectTimer: ReturnType<typeof setTimeout> | null = null;
     protected queries: Record<number, QueryInProgress> = {}; // request id: response
+    protected pending: QueryInProgress[] = []; // commands waiting for an open connection, in send order
+    protected cancelled: Set<number> = new Set(); // ids of aborted requests the server may still respond to
+    protected reconnectAttempts: number = 0;
+    protected reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    protected offlineQueue: OfflineQueue | null = null;
+    /**
+     * False until commands persisted in the offline queue by a previous page have been restored.
+     * Nothing is sent before that so that they're sent first, in their original order.
+     */
+    protected queueRestored: boolean = true;
+    protected queued: number = 0; // the number of commands in the offline queue
+    protected subscriptions: Map<number, Subscription> = new Map(); // subscription key: subscription
+    protected lastSubscription: number = 0;
+    protected cache: QueryCache;
+    protected middleware: Middleware[] = [];
+    protected pipeline: Next;
+    /**
+     * True from when a connection opens until the HELLO command is ready to send. Nothing else
+     * may be sent before it, and middleware may delay it.
+     */
+    protected handshaking: boolean = false;
+    protected authListeners: OnAuthChange[] = [];
+    protected authTimer: ReturnType<typeof setTimeout> | null = null;
+    protected statusListeners: OnStatusChange[] = [];
+    protected lastStatus: ClientStatus = ClientStatus.NotConnected;
+    protected readyWaiters: {resolve: () => void, reject: (reason: Error) => void}[] = [];
+    protected capabilityWaiters: {resolve: (c: Capabilities) => void, reject: (reason: Error) => void}[] = [];
+    /**
+     * Set if the server doesn't support our protocol version. Every request fails with it.
+     */
+    protected protocolError: ServerError | null = null;
+    protected drainWaiters: {waitFor: WaitBehavior, resolve: () => void}[] = [];
+    /**
+     * Checks the transport again while it has buffered data that someone is waiting on,
+     * since there is no event for when the buffer empties.
+     */
+    protected bufferTimer: ReturnType<typeof setTimeout> | null = null;
 
     /**
      * Creates a SQLJoy client and initiates a connection to the server.
@@ -122,10 +324,27 @@ export class SQLJoy {
      */
     constructor(settings: Partial<Settings>) {
         if (settings.versionChangeHandler === undefined) {
-            settings.versionChangeHandler = defaultVersionChangeHandler;
+            // There's no page to reload outside a browser
+            settings.versionChangeHandler = isBrowser() ? defaultVersionChangeHandler : null;
         }
         this.settings = validateSettings(settings);
         this.url = "";
+        this.cache = new QueryCache(this.settings.cacheMaxEntries);
+        this.pipeline = this.dispatch.bind(this);
+        if (this.settings.auth !== null && (this.settings.auth.expiresAt === 0 || this.settings.auth.expiresAt > (new Date()).getTime())) {
+            this.setAuth(this.settings.auth);
+        }
+        if (this.settings.offline) {
+            if (OfflineQueue.supported()) {
+                this.offlineQueue = new OfflineQueue(`sqljoy-${this.settings.accountId || "default"}`);
+                this.restoreQueue();
+            } else {
+                console.warn("offline mode requires IndexedDB, which is not available");
+            }
+        }
+        if (this.settings.sharedConnection && !SharedTransport.supported()) {
+            console.warn("sharing a connection requires BroadcastChannel and Web Locks, which are not available");
+        }
         this.connect();
         addClient(this);
     }
@@ -140,30 +359,44 @@ export class SQLJoy {
      * @throws Error if close() has been called.
      */
     async ready() {
+        if (this.protocolError !== null) {
+            throw this.protocolError;
+        }
         if (this.closed) {
             throw Error("attempt to send on closed connection");
         }
-        if (this.sock === null) {
+        if (this.transport === null && !this.isReconnecting()) {
             console.warn("improve latency by calling the connect() method ahead of using the SQLJoy connection");
-            await this.connect();
-        } else if (this.sock.readyState === this.sock.CLOSED || this.sock.readyState === this.sock.CLOSING) {
-            // This can't happen, anywhere we close the this.sock, we also set it to null.
-            throw Error("WebSocket connection should not be in closing state");
+            this.connect();
         }
-
-        // We have to wait for the socket to finish connecting before we can use it
-        // Otherwise we get: DOMException: Failed to execute 'send' on 'WebSocket': Still in CONNECTING state.
-        // There are all kinds of ways to do this, but the simplest by far is to just poll with setTimeout.
-        // The performance is more than acceptable.
-        while (this.sock!.readyState === this.sock!.CONNECTING) {
-            await wait(5);
+        if (this.connectedAt !== 0) {
+            return;
         }
 
-        if (this.connectedAt === 0) {
-            // If we haven't sent the connect message, identifying any session settings, the
-            // library and app version, etc - now is the time to do that.
-            this.onConnected();
-        }
+        // We have to wait for the transport to finish connecting (or reconnecting) before we can use it.
+        // The promise is settled by onConnected once the transport is open, or by onDisconnected
+        // if we give up on connecting.
+        return new Promise<void>((resolve, reject) => {
+            this.readyWaiters.push({resolve, reject});
+        });
+    }
+
+    /**
+     * Register a callback invoked whenever the {@link status} of the client changes, e.g. to show
+     * a banner while the connection is lost.
+     *
+     * @returns a function that removes the callback again
+     *
+     * @param callback invoked with the new and previous status
+     */
+    onStatusChange(callback: OnStatusChange): () => void {
+        this.statusListeners.push(callback);
+        return () => {
+            const i = this.statusListeners.indexOf(callback);
+            if (i >= 0) {
+                this.statusListeners.splice(i, 1);
+            }
+        };
     }
 
     /**
@@ -173,13 +406,13 @@ export class SQLJoy {
         if (this.closed) {
             return ClientStatus.Closed;
         }
-        if (this.sock == null) {
-            return ClientStatus.NotConnected;
+        if (this.transport == null) {
+            return this.isReconnecting() ? ClientStatus.Connecting : ClientStatus.NotConnected;
         }
-        if (this.sock.readyState === this.sock.OPEN) {
-            return (this.sock.bufferedAmount !== 0 || this.hasPendingResult()) ? ClientStatus.Active : ClientStatus.Open;
+        if (this.transport.state === TransportState.Open) {
+            return (this.transport.bufferedAmount !== 0 || this.hasPendingResult()) ? ClientStatus.Active : ClientStatus.Open;
         }
-        if (this.sock.readyState === this.sock.CONNECTING) {
+        if (this.transport.state === TransportState.Connecting) {
             return ClientStatus.Connecting;
         }
         return ClientStatus.NotConnected;
@@ -197,12 +430,211 @@ export class SQLJoy {
      *
      * @param query the compiled SQL query to execute
      * @param params override bound ${expr} parameters or specify deferred %{name} query parameters
-     * @param validators zero or more validator functions that will run on both client and server
+     * @param validators zero or more validator functions that will run on both client and server,
+     * optionally mixed with a {@link RequestOptions} object
+     */
+    async executeQuery(query: SQL, params?: Record<string, any>, ...validators: (Validator | RequestOptions)[]): Promise<Result> {
+        let [options, funcs] = splitOptions(validators);
+        const queryParams = await prepareQuery(query, params, funcs);
+
+        let promise: Promise<Result>;
+        if (options !== null && options.stream) {
+            if (options.cache !== null) {
+                throw Error("a streamed query can't be cached");
+            }
+            promise = this.executeStream(query.query, queryParams, options);
+        } else if (options !== null && (options.readOnly || options.cache !== null)) {
+            if (!options.readOnly) {
+                options = new RequestOptions(Object.assign({}, options, {readOnly: true}));
+            }
+            promise = this.executeRead(query.query, queryParams, options);
+        } else {
+            promise = this.sendCommand(CommandType.QUERY, query.query, queryParams, options);
+        }
+        return promise.catch(e => {
+            throw this.mapConstraintError(e, funcs);
+        });
+    }
+
+    /**
+     * Returns the ValidationError a constraint violation maps to with {@link constraintErrors} in the validators,
+     * in case the server didn't map it already. Any other error is returned unchanged.
      */
-    async executeQuery(query: SQL, params?: Record<string, any>, ...validators: Validator[]): Promise<Result> {
-        const queryParams = await prepareQuery(query, params, validators, false);
+    protected mapConstraintError(error: any, validators: Validator[]): any {
+        return (error instanceof ServerError && mapConstraintError(validators, error.constraint)) || error;
+    }
+
+    /**
+     * Execute a query with {@link RequestOptions.stream}, resolving to the stream once the first chunk of rows arrives.
+     */
+    protected async executeStream(target: string, queryParams: Record<string, any>, options: RequestOptions): Promise<RowStream> {
+        if (!(await this.negotiated()).streaming) {
+            // The whole result arrives at once, which works the same, just without bounding the memory used
+            const result = await this.sendCommand(CommandType.QUERY, target, queryParams, options);
+            if (result !== null && !(result instanceof ResultRows)) {
+                throw new ServerError("streamed query must return rows", Errors.BadResult);
+            }
+            return RowStream.fromResult(result);
+        }
 
-        return this.sendCommand(CommandType.QUERY, query.query, queryParams);
+        const window = this.settings.streamWindowRows;
+        const stream = new RowStream(window);
+        return new Promise<RowStream>((resolve, reject) => {
+            stream.onStart = () => resolve(stream);
+            this.pipeline({type: CommandType.STREAM, target, args: Object.assign({window}, queryParams), options, headers: {}, stream}).then(
+                () => resolve(stream),
+                e => {
+                    // If the stream was already returned, the error is thrown once its buffered rows are consumed
+                    stream.fail(e);
+                    reject(e);
+                });
+        });
+    }
+
+    /**
+     * paginate executes a query one page at a time using keyset pagination, returning an async iterator of pages.
+     *
+     * The query receives the page size in the %{pageSize} param, and the cursor in a %{cursor_column} param
+     * for each of the cursor columns. The cursor is taken from the last row of each page, and is null for the
+     * first page, so the query has to allow for that.
+     *
+     * @example Iterate over all users in order of name
+     * ```
+     * const query = sql`SELECT id, name FROM users
+     *                   WHERE %{cursor_name}::text IS NULL OR (name, id) > (%{cursor_name}, %{cursor_id})
+     *                   ORDER BY name, id LIMIT %{pageSize}`;
+     * for await (const page of client.paginate(query, {pageSize: 100, cursorColumns: ["name", "id"]})) {
+     *     render([...page]);
+     * }
+     * ```
+     *
+     * @remarks Each page is fetched with one extra row to determine {@link Paginator.hasMore}.
+     *
+     * @returns a {@link Paginator} yielding a {@link ResultRows} for each page
+     *
+     * @param query the compiled SQL query to execute
+     * @param options the page size, cursor columns, and optionally a cursor to resume after
+     * @param params override bound ${expr} parameters or specify deferred %{name} query parameters
+     * @param validators zero or more validator functions that will run on both client and server,
+     * optionally mixed with a {@link RequestOptions} object
+     */
+    paginate(query: SQL, options: PaginateOptions, params?: Record<string, any>, ...validators: (Validator | RequestOptions)[]): Paginator {
+        return new Paginator(options, pageParams => this.executeQuery(query, Object.assign({}, params, pageParams), ...validators));
+    }
+
+    /**
+     * Add a middleware to the request pipeline. Every command the client sends, including queries,
+     * server calls, and the HELLO handshake, passes through each middleware in the order they were added.
+     *
+     * @see {@link Middleware} for an example.
+     *
+     * @returns a function that removes the middleware again
+     *
+     * @param middleware the middleware to add
+     */
+    use(middleware: Middleware): () => void {
+        this.middleware.push(middleware);
+        this.pipeline = compose(this.middleware, this.dispatch.bind(this));
+        return () => {
+            const i = this.middleware.indexOf(middleware);
+            if (i >= 0) {
+                this.middleware.splice(i, 1);
+                this.pipeline = compose(this.middleware, this.dispatch.bind(this));
+            }
+        };
+    }
+
+    /**
+     * Remove cached query results, see {@link RequestOptions.cache}.
+     *
+     * @remarks Results are also invalidated automatically when the server sends a DataChange event
+     * for the query, e.g. for a {@link subscribe | subscribed} query.
+     *
+     * @param filter selects the results to remove, by default all of them
+     */
+    invalidateCache(filter?: CacheFilter) {
+        this.cache.invalidate(filter);
+    }
+
+    /**
+     * Execute a read, returning the cached result if there is one and it's fresh enough,
+     * and sharing the request with any identical read that is in progress.
+     */
+    protected executeRead(query: string, queryParams: {params: Record<string, any>, fragments: string[]}, options: RequestOptions): Promise<Result> {
+        const key = cacheKey(query, queryParams);
+        const cacheOptions = options.cache;
+        const fetch = () => {
+            // A result from before the cache was invalidated, e.g. by a logout, isn't stored
+            const generation = this.cache.generation;
+            return this.sendCommand(CommandType.QUERY, query, queryParams, options).then(result => {
+                if (cacheOptions !== null) {
+                    this.cache.set(key, query, result, cacheOptions, generation);
+                }
+                return result;
+            });
+        };
+
+        if (cacheOptions !== null) {
+            const cached = this.cache.get(key);
+            if (cached !== undefined) {
+                if (cached.fresh) {
+                    return Promise.resolve(cached.result);
+                }
+                if (cacheOptions.staleWhileRevalidate) {
+                    this.cache.dedupe(key, fetch).catch(e => console.warn("unable to refresh cached query", e));
+                    return Promise.resolve(cached.result);
+                }
+            }
+        }
+        // A signal only aborts the caller's own request, so we can't share it
+        return (options.signal != null) ? fetch() : this.cache.dedupe(key, fetch);
+    }
+
+    /**
+     * batch executes several queries, sending them to the server together in one message.
+     *
+     * @remarks This saves a round trip per query, which adds up when loading a page that runs many
+     * independent queries. All queries are validated before any are sent.
+     *
+     * @example Load a dashboard
+     * ```
+     * const [users, orders] = await client.batch([{query: usersQuery}, {query: ordersQuery, params: {since}}]);
+     * ```
+     *
+     * @returns a promise resolving to an array of the {@link Result} of each query, in order.
+     *
+     * @throws {@link ValidationError} if any of the validators fail.
+     * @throws {@link BatchError} if any of the queries fail, which contains the result or error of each query.
+     * @throws {@link ServerError} with type {@link Errors.IncompatibleProtocol} for a transactional batch if the server
+     * doesn't support batches (see {@link Capabilities.batch}). Other batches are then sent as separate queries.
+     *
+     * @param queries the queries to execute
+     * @param transaction if true, the queries execute in a single transaction on the server. If any query fails,
+     * none of them take effect.
+     * @param options optional {@link RequestOptions} for the batch
+     */
+    async batch(queries: BatchQuery[], transaction: boolean = false, options: RequestOptions | null = null): Promise<Result[]> {
+        const prepared = await Promise.all(queries.map(q => prepareQuery(q.query, q.params, q.validators || [])));
+
+        let results: Result[];
+        if ((await this.negotiated()).batch) {
+            results = await this.sendCommand(CommandType.BATCH, "", {
+                transaction,
+                queries: prepared.map((queryParams, i) => Object.assign({query: queries[i].query.query}, queryParams)),
+            }, options);
+        } else if (transaction) {
+            throw unsupported("transactional batches");
+        } else {
+            // Send the queries separately, they're still pipelined on the connection
+            results = await Promise.all(prepared.map((queryParams, i) => {
+                return this.sendCommand(CommandType.QUERY, queries[i].query.query, queryParams, options).catch(e => e);
+            }));
+        }
+        results = results.map((r, i) => this.mapConstraintError(r, queries[i].validators || []));
+        if (results.some(r => r instanceof Error)) {
+            throw new BatchError(results);
+        }
+        return results;
     }
 
     /**
@@ -212,12 +644,190 @@ export class SQLJoy {
      * @remarks serverCall should not be invoked directly, rather server calls matching the
      * pattern func(client.beginTx(), ...) will be transformed by the compiler into calls to this method.
      * All arguments must be serializable as JSON with JSON.stringify, or an Error will be thrown.
+     * A {@link RequestOptions} argument is not sent, it applies to the call itself.
      *
      * @param target The compiled target to call
      * @param args The JSON serializable arguments to pass to the target function
      */
     async serverCall(target: Call, ...args: any[]): Promise<any> {
-        return this.sendCommand(CommandType.CALL, target.func, args);
+        const [options, callArgs] = splitOptions(args);
+        return this.sendCommand(CommandType.CALL, target.func, callArgs, options);
+    }
+
+    /**
+     * subscribe executes a query and invokes the callback with the result, and again with the new result
+     * whenever the underlying data changes. The query must be compiled like any other, it's registered
+     * with the server using its hash, so only whitelisted queries can be subscribed to.
+     *
+     * Subscriptions are restored automatically after reconnecting.
+     *
+     * @example Show a live list of messages
+     * ```
+     * const sub = client.subscribe(sql`SELECT * FROM messages WHERE room = ${room}`, {}, rows => render([...rows]));
+     * // later
+     * sub.unsubscribe();
+     * ```
+     *
+     * @returns a {@link Subscription} handle to unsubscribe. Errors are reported through its ready promise.
+     *
+     * @param query the compiled SQL query to subscribe to
+     * @param params override bound ${expr} parameters or specify deferred %{name} query parameters
+     * @param callback invoked with the initial result and every time it changes
+     * @param validators zero or more validator functions that will run on both client and server
+     */
+    subscribe(query: SQL, params: Record<string, any> | undefined, callback: OnDataChange, ...validators: Validator[]): Subscription {
+        const sub = new Subscription(++this.lastSubscription, callback, this.unsubscribe.bind(this));
+        this.subscriptions.set(sub.key, sub);
+        sub.ready = prepareQuery(query, params, validators).then(async queryParams => {
+            if (!(await this.negotiated()).subscriptions) {
+                throw unsupported("subscriptions");
+            }
+            if (sub.closed) {
+                // Unsubscribed before it was sent, e.g. by an effect cleanup
+                return null;
+            }
+            sub.target = query.query;
+            sub.args = Object.assign({sub: sub.key}, queryParams);
+            return this.sendSubscribe(sub);
+        });
+        sub.ready.catch(() => this.subscriptions.delete(sub.key));
+        return sub;
+    }
+
+    /**
+     * login authenticates the client with the server. The server checks the credentials and establishes
+     * a session, which queries can refer to with %{SESSION.name} parameters and server functions can
+     * access with {@link Context.session}.
+     *
+     * The session token is sent again on every new connection, and refreshed automatically before it expires.
+     *
+     * @example Log in with a password
+     * ```
+     * const auth = await client.login({username, password});
+     * console.log("logged in as", auth.user.name);
+     * ```
+     *
+     * @returns a promise resolving to the new {@link AuthState}.
+     *
+     * @throws {@link ServerError} with type {@link Errors.Unauthorized} if the credentials are invalid.
+     *
+     * @param credentials the credentials to pass to the server, they must be serializable as JSON
+     * @param options optional {@link RequestOptions} for the request
+     */
+    async login(credentials: Record<string, any>, options: RequestOptions | null = null): Promise<AuthState> {
+        if (!(await this.negotiated()).auth) {
+            throw unsupported("authentication");
+        }
+        const auth = await this.sendCommand(CommandType.AUTH, "login", credentials, options);
+        if (!isAuthState(auth)) {
+            throw new ServerError("invalid login result", Errors.BadResult);
+        }
+        this.setAuth(auth);
+        return auth;
+    }
+
+    /**
+     * logout ends the session on the server and returns the client to the anonymous state.
+     *
+     * @remarks The client forgets the session immediately, even if the request fails.
+     * If the connection is lost before the server receives it, the session is left to expire on its own.
+     */
+    async logout(): Promise<void> {
+        if (this.auth === null) {
+            return;
+        }
+        const token = this.auth.token;
+        this.setAuth(null);
+        try {
+            await this.sendCommand(CommandType.AUTH, "logout", {token});
+        } catch (e) {
+            if (!(e instanceof ConnectionError)) {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * Register a callback invoked whenever the authentication state changes: after {@link login}, {@link logout},
+     * a token refresh, or when the server ends the session.
+     *
+     * @returns a function that removes the callback again
+     *
+     * @param callback invoked with the new {@link AuthState}, or null if the client is no longer authenticated
+     */
+    onAuthChange(callback: OnAuthChange): () => void {
+        this.authListeners.push(callback);
+        return () => {
+            const i = this.authListeners.indexOf(callback);
+            if (i >= 0) {
+                this.authListeners.splice(i, 1);
+            }
+        };
+    }
+
+    /**
+     * Replace the authentication state, schedule the refresh of the new token, and notify the listeners.
+     */
+    protected setAuth(auth: AuthState | null) {
+        if (this.authTimer !== null) {
+            clearTimeout(this.authTimer);
+            this.authTimer = null;
+        }
+        const changed = (auth === null) ? this.auth !== null : (this.auth === null || this.auth.token !== auth.token);
+        this.auth = auth;
+        if (auth !== null && auth.expiresAt !== 0 && !this.closed) {
+            const delay = Math.max(0, auth.expiresAt - this.settings.authRefreshMarginMs - (new Date()).getTime());
+            this.authTimer = setTimeout(() => {
+                this.authTimer = null;
+                this.refreshAuth(auth);
+            }, delay);
+        }
+        if (changed) {
+            // Cached results may depend on the session
+            this.cache.invalidate();
+            for (const listener of this.authListeners.slice()) {
+                listener(auth);
+            }
+        }
+    }
+
+    /**
+     * Exchange the session token for a new one before it expires. If that fails because of a
+     * connection problem, try again shortly until the token expires.
+     */
+    protected refreshAuth(auth: AuthState) {
+        this.sendCommand(CommandType.AUTH, "refresh", {token: auth.token}).then(result => {
+            if (this.auth !== auth) {
+                // Logged out or in again in the meantime
+                return;
+            }
+            if (!isAuthState(result)) {
+                throw new ServerError("invalid refresh result", Errors.BadResult);
+            }
+            this.setAuth(result);
+        }).catch(e => {
+            if (this.auth !== auth) {
+                return;
+            }
+            const now = (new Date()).getTime();
+            if ((e instanceof ServerError && e.type() === Errors.Unauthorized) || auth.expiresAt <= now) {
+                this.setAuth(null);
+                return;
+            }
+            console.warn("unable to refresh the session token", e);
+            this.authTimer = setTimeout(() => {
+                this.authTimer = null;
+                this.refreshAuth(auth);
+            }, Math.min(this.settings.maxReconnectDelayMs, (auth.expiresAt - now) / 2));
+        });
+    }
+
+    /**
+     * Returns the number of commands in the offline queue that haven't been acknowledged by the server.
+     * Always 0 if {@link Settings.offline} isn't enabled.
+     */
+    queueLength(): number {
+        return this.queued;
     }
 
     /**
@@ -232,11 +842,21 @@ export class SQLJoy {
         }
         this.closed = true;
 
-        if (this.sock !== null) {
-            this.sock.close();
-            this.sock = null;
+        if (this.authTimer !== null) {
+            clearTimeout(this.authTimer);
+            this.authTimer = null;
+        }
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
         }
-        // TODO does onClose get invoked here? If not, we need to call it ourselves.
+        if (this.transport !== null) {
+            const transport = this.transport;
+            this.transport = null;
+            transport.close();
+        }
+        // onClose may be invoked for the transport, but we've already discarded it.
+        this.onDisconnected();
 
         removeClient(this);
     }
@@ -257,9 +877,13 @@ export class SQLJoy {
      * Passing NEVER causes this method to return immediately.
      */
     async drain(waitFor: WaitBehavior = WaitBehavior.WAIT_FOR_ACK): Promise<void> {
-        while (this.hasPending(waitFor)) {
-            await wait(5);
+        if (!this.hasPending(waitFor)) {
+            return;
         }
+        return new Promise<void>(resolve => {
+            this.drainWaiters.push({waitFor, resolve});
+            this.watchBuffer();
+        });
     }
 
     /**
@@ -276,12 +900,16 @@ export class SQLJoy {
         if (waitFor === WaitBehavior.NEVER) {
             return false;
         }
+        // Requests waiting for a connection are only kept while connecting or reconnecting, otherwise they fail.
+        if (this.pending.length !== 0) {
+            return true;
+        }
         // Check if we have a valid connection, otherwise we're going to discard all pending requests anyway on the next connect().
-        if (this.sock == null || this.sock.readyState === this.sock.CLOSED || this.sock.readyState === this.sock.CLOSING) {
+        if (this.transport == null || this.transport.state === TransportState.Closed) {
             return false;
         }
         // If waitFor === WaitBehavior.WAIT_FOR_ACK, check if hasPending(), otherwise check if anything if buffered
-        return (waitFor === WaitBehavior.WAIT_FOR_ACK && this.hasPendingResult()) || this.sock.bufferedAmount !== 0;
+        return (waitFor === WaitBehavior.WAIT_FOR_ACK && this.hasPendingResult()) || this.transport.bufferedAmount !== 0;
     }
 
     /**
@@ -307,67 +935,525 @@ export class SQLJoy {
      * first usage(s).
      */
     protected connect() {
-        if (this.connecting) {
+        if (this.connecting || this.closed) {
             return;
         }
 
         this.connecting = true;
+        this.stateChanged();
         const self = this;
-        getServerUrl(this.settings).then((url) => {
+        selectServer(this.settings).then((selection) => {
+            self.connecting = false;
+            if (self.closed) {
+                return;
+            }
+            const url = selection.url;
             self.url = url;
-            const sock = new WebSocket(url);
+            self.serverSelection = selection;
+            let type = self.settings.transport;
+            if (type === TransportType.Auto) {
+                type = self.useHTTP ? TransportType.HTTP : TransportType.WebSocket;
+            }
+            const transport = (self.settings.sharedConnection && SharedTransport.supported())
+                ? new SharedTransport(type, url, `sqljoy-${self.settings.accountId || "default"}`)
+                : createTransport(type, url, self.settings.webSocket);
+            transport.onopen = self.onOpen.bind(self, transport);
+            transport.onclose = self.onClose.bind(self, transport);
+            transport.onerror = self.onError.bind(self, transport);
+            transport.onmessage = self.onMsg.bind(self);
+            self.transport = transport;
+            self.transportUsed = false;
+            // Some proxies leave a blocked WebSocket upgrade hanging instead of failing it
+            self.connectTimer = setTimeout(() => {
+                self.connectTimer = null;
+                if (transport.state === TransportState.Connecting) {
+                    transport.close();
+                }
+            }, self.settings.connectTimeoutMs);
+            self.stateChanged();
+        }).catch((e) => {
+            console.warn("unable to find a server", e);
             self.connecting = false;
-            sock.onclose = self.onClose.bind(self);
-            sock.onerror = self.onError.bind(self);
-            sock.onmessage = self.onMsg.bind(self);
-            self.sock = sock;
-        }).catch(() => this.connecting = false);
+            self.onDisconnected();
+        });
+    }
+
+    /**
+     * True if there is a connection attempt in progress or scheduled.
+     */
+    protected isReconnecting(): boolean {
+        return this.connecting || this.reconnectTimer !== null;
+    }
+
+    /**
+     * Schedule the next connection attempt, using exponential backoff with jitter.
+     *
+     * The delay doubles with each consecutive failed attempt up to maxReconnectDelayMs, and
+     * a random half of that is subtracted so that clients that lost their connection at the
+     * same time (e.g. when a server restarts) don't all reconnect at the same time.
+     */
+    protected scheduleReconnect() {
+        const {reconnectDelayMs, maxReconnectDelayMs} = this.settings;
+        const delay = Math.min(maxReconnectDelayMs, reconnectDelayMs * Math.pow(2, this.reconnectAttempts));
+        this.reconnectAttempts++;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, delay / 2 + Math.random() * delay / 2);
+    }
+
+    protected onOpen(transport: Transport) {
+        if (transport !== this.transport) {
+            return;
+        }
+        this.clearConnectTimer();
+        this.reconnectAttempts = 0;
+        if (this.serverSelection !== null) {
+            markServerHealthy(this.serverSelection.server);
+        }
+        // If we haven't sent the connect message, identifying any session settings, the
+        // library and app version, etc - now is the time to do that.
+        this.onConnected();
+        this.stateChanged();
     }
 
     protected onConnected() {
         const self = this;
+        const auth = this.auth;
         this.connectedAt = (new Date()).getTime();
+        this.handshaking = true;
+        const waiters = this.readyWaiters;
+        this.readyWaiters = [];
+        waiters.forEach(w => w.resolve());
         this.sendCommand(CommandType.HELLO, "", {
             versionMajor,
             versionMinor,
             appVersion: this.settings.version,
-            referer: document.referrer,
+            referer: isBrowser() ? document.referrer : "",
+            binary: this.settings.binaryResults,
+            capabilities: Object.values(Capability),
+            token: (auth !== null) ? auth.token : null,
         }).then(r => {
-            if (isString(r.session)) {
-                self.session = r.session;
+            const reply = r || {};
+            const capabilities = negotiate(reply, this.settings.binaryResults);
+            if (isString(reply.session)) {
+                self.session = reply.session;
+            }
+            self.capabilities = capabilities;
+            const waiters = self.capabilityWaiters;
+            self.capabilityWaiters = [];
+            waiters.forEach(w => w.resolve(capabilities));
+
+            if (auth !== null && self.auth === auth && reply.authenticated === false) {
+                // The session expired or was ended on the server
+                self.setAuth(null);
+            }
+            self.restoreSubscriptions();
+        }).catch(e => {
+            if (e instanceof ServerError && e.type() === Errors.IncompatibleProtocol) {
+                self.failProtocol(e);
+                return;
+            }
+            // The HELLO is sent again on reconnect
+            if (!(e instanceof ConnectionError)) {
+                console.error(e);
+            }
+            if (self.handshaking) {
+                // Middleware failed it without sending it, don't hold up everything else
+                self.handshaking = false;
+                self.sendPending();
+            }
+        });
+    }
+
+    /**
+     * Returns the capabilities of the server, waiting for the handshake to complete if we don't know them yet.
+     */
+    protected negotiated(): Promise<Capabilities> {
+        if (this.protocolError !== null) {
+            return Promise.reject(this.protocolError);
+        }
+        if (this.capabilities !== null) {
+            return Promise.resolve(this.capabilities);
+        }
+        return this.ready().then(() => new Promise<Capabilities>((resolve, reject) => {
+            // The handshake may have completed while we waited
+            if (this.capabilities !== null) {
+                resolve(this.capabilities);
+            } else {
+                this.capabilityWaiters.push({resolve, reject});
+            }
+        }));
+    }
+
+    /**
+     * Fail everything with the error and close the client, the server doesn't speak our protocol.
+     * Reconnecting wouldn't help, the page needs to be updated.
+     */
+    protected failProtocol(error: ServerError) {
+        console.error(error);
+        this.protocolError = error;
+        const waiters = this.capabilityWaiters;
+        this.capabilityWaiters = [];
+        waiters.forEach(w => w.reject(error));
+        for (let id in this.queries) {
+            if (this.queries.hasOwnProperty(id)) {
+                this.queries[id].cancel(error);
+            }
+        }
+        this.queries = {};
+        this.pending.forEach(q => q.cancel(error));
+        this.pending = [];
+        this.close();
+    }
+
+    /**
+     * Subscriptions only last as long as the connection, so register them again after connecting.
+     */
+    protected restoreSubscriptions() {
+        if (this.capabilities === null || !this.capabilities.subscriptions) {
+            return;
+        }
+        this.subscriptions.forEach(sub => {
+            if (sub.args !== null && !sub.inFlight) {
+                this.sendSubscribe(sub).catch(e => {
+                    if (!(e instanceof ConnectionError)) {
+                        console.error("unable to restore subscription", e);
+                    }
+                });
+            }
+        });
+    }
+
+    /**
+     * Register the subscription with the server. The server replies with the initial result.
+     */
+    protected sendSubscribe(sub: Subscription): Promise<Result> {
+        sub.inFlight = true;
+        return this.sendCommand(CommandType.SUBSCRIBE, sub.target, sub.args!).then(rows => {
+            sub.inFlight = false;
+            if (sub.closed) {
+                // Unsubscribed while this was in flight, so the server has it now
+                this.sendUnsubscribe(sub);
             }
-        }).catch(console.error);
+            sub.update(rows, null);
+            return rows;
+        }, e => {
+            sub.inFlight = false;
+            throw e;
+        });
+    }
+
+    protected unsubscribe(sub: Subscription) {
+        this.subscriptions.delete(sub.key);
+        // If the SUBSCRIBE is in flight, sendSubscribe unsubscribes once it's done
+        if (sub.args !== null && !sub.inFlight) {
+            this.sendUnsubscribe(sub);
+        }
     }
 
-    protected sendCommand(cmd: CommandType, target: string, args: Record<string, any> | any[]): Promise<Result> {
-        const id = this.nextId();
-        // We don't need to send requests with the binary protocol.
-        // Most requests are small and the code size increase and processing time increase aren't worth it.
-        // This also means the server only needs to accept the text protocol.
-        //
-        // Both text and binary frames have the length encoded at the start of the frame,
-        // so there is no performance difference for the server.
-        const msg = `${cmd}${id};${target};${JSON.stringify(args)}`;
+    protected sendUnsubscribe(sub: Subscription) {
+        if (this.connectedAt !== 0) {
+            this.sendCommand(CommandType.UNSUBSCRIBE, "", {sub: sub.key}).catch(() => {
+                // The subscription ends with the connection anyway
+            });
+        }
+    }
+
+    /**
+     * Handle a DataChange event for a subscription, which contains either the new result
+     * or a diff of the changes to the current result.
+     */
+    protected onDataChange(event: Record<string, any>) {
+        const sub = this.subscriptions.get(event.sub);
+        // Remove cached results of the queries that changed. If we don't know which, remove all of them.
+        if (Array.isArray(event.queries)) {
+            event.queries.forEach((query: string) => this.cache.invalidate({query}));
+        } else if (sub !== undefined) {
+            this.cache.invalidate({query: sub.target});
+        } else {
+            this.cache.invalidate();
+        }
+
+        if (sub === undefined) {
+            // We may have unsubscribed already
+            return;
+        }
+        if (event.rows instanceof ResultRows) {
+            sub.update(event.rows, null);
+        } else if (event.diff != null) {
+            sub.update(null, event.diff);
+        }
+    }
+
+    protected sendCommand(cmd: CommandType, target: string, args: Record<string, any> | any[], options: RequestOptions | null = null): Promise<Result> {
+        return this.pipeline({type: cmd, target, args, options, headers: {}});
+    }
+
+    /**
+     * Send a command that has passed through the middleware.
+     */
+    protected dispatch(command: Command): Promise<Result> {
+        const cmd = command.type as CommandType;
+        const {target, args} = command;
+        let options = command.options;
+        if (this.protocolError !== null) {
+            return Promise.reject(this.protocolError);
+        }
+        const signal = (options !== null) ? options.signal : null;
+        if (signal != null && signal.aborted) {
+            return Promise.reject(new AbortError());
+        }
+
+        // Only queries and calls are persisted. Other commands may hold credentials (AUTH) or state that
+        // doesn't survive a reload (SUBSCRIBE, BATCH, and streamed queries, whose RowStream would be lost).
+        const persistable = this.offlineQueue !== null && (cmd === CommandType.QUERY || cmd === CommandType.CALL) &&
+            command.stream === undefined;
+        if (persistable && (options === null || !options.readOnly)) {
+            options = new RequestOptions(Object.assign({}, options, {
+                idempotencyKey: (options !== null && options.idempotencyKey) || randomId(),
+            }));
+        }
+
         const promise = new Promise<Result>((resolve, reject) => {
-            this.queries[id] = new QueryInProgress(resolve, reject);
+            const query = new QueryInProgress(cmd, target, args, options, resolve, reject);
+            query.headers = command.headers;
+            if (command.stream !== undefined) {
+                const stream = command.stream;
+                query.stream = stream;
+                stream.onCredit = rows => this.sendMore(query, rows);
+                stream.onCancel = () => this.abort(query, new AbortError("stream cancelled"));
+            }
+            if (signal != null) {
+                query.onAbort = this.abort.bind(this, query, new AbortError());
+                signal.addEventListener("abort", query.onAbort);
+            }
+            const timeoutMs = (options !== null && options.timeoutMs !== null) ? options.timeoutMs : this.settings.defaultTimeoutMs;
+            if (timeoutMs > 0 && cmd !== CommandType.HELLO) {
+                query.deadline = (new Date()).getTime() + timeoutMs;
+                query.timer = setTimeout(() => {
+                    query.timer = null;
+                    this.timeout(query, new ServerError(`request timed out after ${timeoutMs}ms`, Errors.Timeout));
+                }, timeoutMs);
+            }
+
+            if (persistable && options !== null && options.idempotencyKey) {
+                this.persist(query);
+            } else {
+                this.enqueue(query);
+            }
         });
-        this.send(msg);
         return promise;
     }
 
-    protected send(msg: string) {
-        const onReady = this.doSend.bind(this, msg);
-        this.ready().then(onReady);
+    /**
+     * Add the command to the pending commands and send it if connected.
+     */
+    protected enqueue(query: QueryInProgress) {
+        if (query.cmd === CommandType.HELLO) {
+            if (this.connectedAt === 0) {
+                // The connection was lost while middleware delayed it, it's sent again on the next connection
+                query.cancel();
+                return;
+            }
+            // The HELLO must always be the first command sent on a connection
+            this.pending.unshift(query);
+            this.handshaking = false;
+        } else {
+            this.pending.push(query);
+        }
+
+        if (this.connectedAt !== 0) {
+            this.sendPending();
+        } else if (this.transport === null && !this.isReconnecting()) {
+            this.connect();
+        }
     }
 
-    protected doSend(msg: string) {
-        if (this.closed || this.sock === null || this.sock.readyState !== this.sock.OPEN) {
+    /**
+     * Save the command to the offline queue, then enqueue it.
+     * If that fails, the command is sent without being persisted.
+     */
+    protected persist(query: QueryInProgress) {
+        const command: QueuedCommand = {
+            cmd: query.cmd,
+            target: query.target,
+            args: query.args,
+            idempotencyKey: query.options!.idempotencyKey,
+            headers: query.headers,
+            queuedAt: (new Date()).getTime(),
+        };
+        query.queued = command;
+        this.offlineQueue!.add(command).then(key => {
+            command.key = key;
+            this.queueChanged(1);
+            if (query.aborted) {
+                // It was aborted while we were saving it
+                this.dequeue(query);
+            } else {
+                this.enqueue(query);
+            }
+        }).catch(e => {
+            console.warn("unable to save command to the offline queue", e);
+            query.queued = null;
+            if (!query.settled) {
+                this.enqueue(query);
+            }
+        });
+    }
+
+    /**
+     * Restore the commands persisted in the offline queue by a previous page, and send them ahead of any new commands.
+     */
+    protected restoreQueue() {
+        this.queueRestored = false;
+        this.offlineQueue!.list().then(commands => {
+            // Discard anything else persisted by an older version, like AUTH commands with credentials
+            commands = commands.filter(command => {
+                if (command.cmd === CommandType.QUERY || command.cmd === CommandType.CALL) {
+                    return true;
+                }
+                if (command.key !== undefined) {
+                    this.offlineQueue!.remove(command.key).catch(() => {});
+                }
+                return false;
+            });
+            const restored = commands.map(command => {
+                const options = new RequestOptions({idempotencyKey: command.idempotencyKey});
+                // There's no one waiting for the result, errors are reported through the settings callbacks
+                const query = new QueryInProgress(command.cmd as CommandType, command.target, command.args, options, () => {}, () => {});
+                query.headers = command.headers || {};
+                query.queued = command;
+                return query;
+            });
+            // The HELLO must stay first, if it's already pending
+            const i = (this.pending.length !== 0 && this.pending[0].cmd === CommandType.HELLO) ? 1 : 0;
+            this.pending.splice(i, 0, ...restored);
+            this.queueChanged(restored.length);
+        }).catch(e => {
+            console.warn("unable to restore the offline queue", e);
+        }).then(() => {
+            this.queueRestored = true;
+            this.sendPending();
+        });
+    }
+
+    /**
+     * Remove the command from the offline queue once it's been acknowledged by the server or aborted.
+     */
+    protected dequeue(query: QueryInProgress) {
+        const command = query.queued;
+        if (command === null || command.key === undefined) {
             return;
         }
-        this.sock.send(msg);
-        if (this.settings.preventUnload !== WaitBehavior.NEVER) {
-            updateUnloadHandler();
+        query.queued = null;
+        this.offlineQueue!.remove(command.key).then(() => this.queueChanged(-1)).catch(e => {
+            console.warn("unable to remove command from the offline queue", e);
+        });
+    }
+
+    protected queueChanged(delta: number) {
+        this.queued += delta;
+        if (delta !== 0 && this.settings.onQueueChange !== null) {
+            this.settings.onQueueChange(this.queued);
+        }
+    }
+
+    /**
+     * Abort a command, rejecting it with the passed error. If the command was already sent,
+     * tell the server to cancel it. The server abandons any pending subtasks and database
+     * queries for the request, but it may have already been (partially) executed.
+     */
+    protected abort(query: QueryInProgress, error: Error) {
+        query.aborted = true;
+        this.dequeue(query);
+        const i = this.pending.indexOf(query);
+        if (i >= 0) {
+            this.pending.splice(i, 1);
+        } else {
+            const id = this.requestId(query);
+            if (id !== 0) {
+                delete this.queries[id];
+                this.cancelled.add(id);
+                this.sendCancel(id);
+            }
+        }
+        query.cancel(error);
+        this.stateChanged();
+    }
+
+    /**
+     * Fail the command because it didn't complete in time. A command in the offline queue stays queued,
+     * it's still sent and removed once the server responds, only the caller stops waiting for it.
+     */
+    protected timeout(query: QueryInProgress, error: Error) {
+        if (query.queued !== null) {
+            query.reject(error);
+            return;
+        }
+        this.abort(query, error);
+    }
+
+    /**
+     * Returns the id the command was sent with on the current connection, or 0 if it's not waiting for a result.
+     */
+    protected requestId(query: QueryInProgress): number {
+        for (let key in this.queries) {
+            if (this.queries.hasOwnProperty(key) && this.queries[key] === query) {
+                return parseInt(key, 10);
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Tell the server it can send more rows of a streamed query. The server doesn't reply to it.
+     */
+    protected sendMore(query: QueryInProgress, rows: number) {
+        const id = this.requestId(query);
+        if (id !== 0 && this.transport !== null && this.transport.state === TransportState.Open) {
+            this.transport.send(`${CommandType.MORE}${id};;${rows}`);
+        }
+    }
+
+    /**
+     * Send a command to cancel the request with the given id. The server doesn't reply to it.
+     */
+    protected sendCancel(id: number) {
+        if (this.capabilities !== null && !this.capabilities.cancel) {
+            // The server would reject it, the request runs to completion instead
+            return;
+        }
+        if (this.transport !== null && this.transport.state === TransportState.Open) {
+            this.transport.send(`${CommandType.CANCEL}${id};;null`);
+        }
+    }
+
+    /**
+     * Send all pending commands, in order, if the connection is open.
+     */
+    protected sendPending() {
+        if (this.closed || this.handshaking || !this.queueRestored || this.transport === null || this.transport.state !== TransportState.Open) {
+            return;
+        }
+
+        const pending = this.pending;
+        this.pending = [];
+        for (const query of pending) {
+            // We don't need to send requests with the binary protocol.
+            // Most requests are small and the code size increase and processing time increase aren't worth it.
+            // This also means the server only needs to accept the text protocol.
+            //
+            // Both text and binary frames have the length encoded at the start of the frame,
+            // so there is no performance difference for the server.
+            //
+            // Request ids are only unique per connection, so retried commands get a new id.
+            const id = this.nextId();
+            this.queries[id] = query;
+            query.sent = true;
+            this.transport.send(query.encode(id));
         }
+        this.stateChanged();
     }
 
     /**
@@ -387,46 +1473,54 @@ export class SQLJoy {
         return timestamp;
     }
 
-    protected onMsg(e: MessageEvent) {
-        if (this.settings.preventUnload !== WaitBehavior.NEVER) {
-            updateUnloadHandler();
+    protected onMsg(data: string | ArrayBuffer) {
+        this.transportUsed = true;
+        try {
+            this.handleMsg(data);
+        } finally {
+            this.stateChanged();
         }
+    }
 
+    protected handleMsg(data: string | ArrayBuffer) {
         let id = 0;
         let error: Error | null = null;
         let result: Result | any = null;
+        let more = false; // a chunk of a streamed result, more chunks follow
 
-        if (isString(e.data)) {
+        if (isString(data)) {
             // Errors before we get a request id back can't be delivered to any promise, so just throw them.
-            const msg = JSON.parse(e.data, this.settings.jsonReviver);
+            const msg = JSON.parse(data, this.settings.jsonReviver);
             if (!isJSONResult(msg)) {
                 throw new ServerError("invalid result", Errors.BadResult);
             }
 
             id = msg.id;
+            more = msg.more === true;
             if (msg.error) {
-                if (msg.errorType === Errors.ValidationError) {
-                    if (isString(msg.error)) {
-                        error = new ServerError("invalid validation error", Errors.BadResult);
-                    } else {
-                        error = new ValidationError(msg.error.errors, msg.error.nonFieldErrors);
-                    }
-                } else {
-                    error = new ServerError(msg.error.toString(), (msg.errorType as Errors) || Errors.ServerError);
-                }
+                error = this.decodeError(msg);
+            } else if (Array.isArray(msg.results)) {
+                result = msg.results.map((item: JSONBatchItem) => item.error ? this.decodeError(item) : (item.result || null));
             } else if (isRowsResult(msg.result)) {
-                const {__C_, __R_, __A_} = msg.result;
-                result = new ResultRows(__C_, __R_, __A_); // missing a 4th __P_ argument
+                const {__C_, __R_, __A_, __P_} = msg.result;
+                result = new ResultRows(__C_, __R_, __A_, __P_ || null);
             } else {
                 result = msg.result || null;
             }
         } else {
-            // TODO binary protocol
-            throw new ServerError("binary protocol not implemented", Errors.BadResult);
+            // Only query results are sent with the binary protocol, errors are always sent as text.
+            const msg = decodeBinaryResult(data, this.capabilities !== null && this.capabilities.columnTypes);
+            id = msg.id;
+            result = msg.result;
+            more = msg.more;
         }
 
         const promise = this.queries[id];
         if (promise === undefined) {
+            if (more ? this.cancelled.has(id) : this.cancelled.delete(id)) {
+                // The result of a request we aborted, there's no one waiting for it anymore
+                return;
+            }
             // This event has no associated request, it must have been server initiated
             if (result !== null && result.eventType != null) {
                 // This is a server "push" event, call the registered handler
@@ -437,7 +1531,13 @@ export class SQLJoy {
                         }
                         break;
                     case ServerEvent.DataChange:
-                        console.warn("server initiated data change events not yet implemented");
+                        this.onDataChange(result);
+                        break;
+                    case ServerEvent.AuthChange:
+                        // A server function changed or ended the session
+                        if (result.auth === null || isAuthState(result.auth)) {
+                            this.setAuth(result.auth);
+                        }
                         break;
                 }
                 return;
@@ -445,7 +1545,29 @@ export class SQLJoy {
             throw new Error("unexpected or invalid server message");
         }
 
+        if (promise.stream !== null && error == null) {
+            if (!(result instanceof ResultRows)) {
+                error = new ServerError("streamed query must return rows", Errors.BadResult);
+            } else {
+                promise.stream.push(result, more);
+                if (more) {
+                    return;
+                }
+            }
+        }
+
         delete this.queries[id];
+        if (promise.queued !== null) {
+            const command = promise.queued;
+            this.dequeue(promise);
+            if (error instanceof ValidationError) {
+                if (this.settings.onQueueConflict !== null) {
+                    this.settings.onQueueConflict(command, error);
+                }
+            } else if (error != null && this.settings.onQueueFailure !== null) {
+                this.settings.onQueueFailure(command, error);
+            }
+        }
         if (error != null) {
             promise.reject(error);
         } else {
@@ -453,22 +1575,163 @@ export class SQLJoy {
         }
     }
 
-    protected onError(e: Event) {
-        console.warn("error from WebSocket", e);
-        if (this.sock !== null) {
-            this.sock.close();
-            this.sock = null;
+    /**
+     * Convert the error in a result from the server to an Error object.
+     */
+    protected decodeError(msg: JSONBatchItem): Error {
+        if (msg.errorType === Errors.ValidationError) {
+            if (msg.error == null || isString(msg.error)) {
+                return new ServerError("invalid validation error", Errors.BadResult);
+            }
+            const details = msg.error.details;
+            if (details != null && details.fields != null && typeof details.fields === "object" && Array.isArray(details.nonField)) {
+                // Format the messages with our message catalog
+                return new ValidationError({}, [], details);
+            }
+            return new ValidationError(msg.error.errors, msg.error.nonFieldErrors);
+        }
+        const dbError = msg.dbError;
+        if (dbError != null && isString(dbError.code)) {
+            // The type is implied by the SQLSTATE, unless the server chose a more specific one
+            const type = (msg.errorType && msg.errorType !== Errors.ServerError) ? msg.errorType as Errors : errorTypeForCode(dbError.code);
+            return new ServerError(String(msg.error), type, dbError);
+        }
+        return new ServerError(String(msg.error), (msg.errorType as Errors) || Errors.ServerError);
+    }
+
+    protected onError(transport: Transport, e: any) {
+        console.warn("error from transport", e);
+        if (transport === this.transport) {
+            // onClose will be invoked after this
+            transport.close();
+        }
+    }
+
+    protected onClose(transport: Transport) {
+        if (transport !== this.transport) {
+            // This is a late event for a transport we already replaced or closed
+            return;
+        }
+        this.clearConnectTimer();
+        this.transport = null;
+        // In Auto mode a WebSocket that never opens may be blocked rather than the server being down,
+        // we only know the server is unreachable if HTTP fails too.
+        const autoWebSocket = this.settings.transport === TransportType.Auto && !this.useHTTP;
+        if (this.connectedAt === 0 && !autoWebSocket && this.serverSelection !== null) {
+            markServerFailed(this.settings, this.serverSelection.server, new ConnectionError("unable to connect"));
+        }
+        if (this.settings.transport === TransportType.Auto && !this.transportUsed) {
+            // It never worked, so try the other transport next time. If the server is down, rather than
+            // the transport being blocked, this alternates between them until the server is back.
+            this.useHTTP = !this.useHTTP;
+        }
+        this.onDisconnected();
+    }
+
+    protected clearConnectTimer() {
+        if (this.connectTimer !== null) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
         }
     }
 
-    protected onClose(e: CloseEvent) {
+    /**
+     * Called when the connection is lost or the attempt to connect failed.
+     *
+     * Commands that can be safely retried are queued to be sent again (ahead of any commands
+     * not sent yet, to preserve the order) and a reconnect is scheduled. The rest are failed
+     * with a ConnectionError. If the client was closed, or we've given up reconnecting,
+     * all commands fail.
+     */
+    protected onDisconnected() {
+        this.connectedAt = 0;
+        this.handshaking = false;
+        this.cancelled.clear();
+
+        const retry: QueryInProgress[] = [];
+        // Integer keys iterate in ascending order, which is the order they were sent
         for(let id in this.queries) {
             if (this.queries.hasOwnProperty(id)) {
                 const q = this.queries[id];
-                q.cancel();
+                if (q.cmd !== CommandType.HELLO && q.canRetry()) {
+                    retry.push(q);
+                } else {
+                    q.cancel();
+                }
             }
         }
         this.queries = {};
-        this.sock = null;
+        this.pending = retry.concat(this.pending.filter(q => q.cmd !== CommandType.HELLO));
+
+        const {reconnect, maxReconnectAttempts} = this.settings;
+        if (!this.closed && reconnect && (maxReconnectAttempts === 0 || this.reconnectAttempts < maxReconnectAttempts)) {
+            if (!this.isReconnecting()) {
+                this.scheduleReconnect();
+            }
+            this.stateChanged();
+            return;
+        }
+
+        this.reconnectAttempts = 0;
+        const pending = this.pending;
+        // Commands in the offline queue wait for the next connection, unless the client is closed
+        this.pending = this.closed ? [] : pending.filter(q => q.queued !== null);
+        for (const q of pending) {
+            if (this.closed || q.queued === null) {
+                q.cancel(this.closed ? new ConnectionError("client closed") : undefined);
+            }
+        }
+        const waiters = [...this.readyWaiters, ...this.capabilityWaiters];
+        this.readyWaiters = [];
+        this.capabilityWaiters = [];
+        for (const w of waiters) {
+            w.reject(this.closed ? Error("attempt to send on closed connection") : new ConnectionError("unable to connect"));
+        }
+        this.stateChanged();
+    }
+
+    /**
+     * Called after anything that may change the status of the client or whether it has pending requests.
+     * Notifies status listeners of a changed status and resolves drain() promises that are done waiting.
+     */
+    protected stateChanged() {
+        if (this.settings.preventUnload !== WaitBehavior.NEVER) {
+            updateUnloadHandler();
+        }
+
+        const status = this.status();
+        if (status !== this.lastStatus) {
+            const previous = this.lastStatus;
+            this.lastStatus = status;
+            for (const listener of this.statusListeners.slice()) {
+                listener(status, previous);
+            }
+        }
+
+        if (this.drainWaiters.length !== 0) {
+            this.drainWaiters = this.drainWaiters.filter(w => {
+                if (this.hasPending(w.waitFor)) {
+                    return true;
+                }
+                w.resolve();
+                return false;
+            });
+        }
+        this.watchBuffer();
+    }
+
+    /**
+     * Schedule a check of the transport while data is buffered and there are drain() promises
+     * or status listeners that depend on it.
+     */
+    protected watchBuffer() {
+        if (this.bufferTimer !== null || this.transport === null || this.transport.bufferedAmount === 0 ||
+            (this.drainWaiters.length === 0 && this.statusListeners.length === 0)) {
+            return;
+        }
+        this.bufferTimer = setTimeout(() => {
+            this.bufferTimer = null;
+            this.stateChanged();
+        }, 10);
     }
 }
\ No newline at end of file
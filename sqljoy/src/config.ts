@@ -1,8 +1,12 @@
 import {isString, shuffleArray} from "./util.js";
-import {isRowsResult, ResultRows} from "./result";
+import {isRowsResult, ResultRows} from "./result.js";
+import {TransportType, WebSocketConstructor} from "./transport.js";
+import type {QueuedCommand} from "./offline.js";
+import type {ValidationError} from "./validation.js";
+import type {AuthState} from "./auth.js";
 
 export const versionMajor = 0;
-export const versionMinor = 10;
+export const versionMinor = 11;
 
 /**
  * These are defined as global variables by the compiler.
@@ -49,7 +53,7 @@ export interface Settings {
     /**
      * The registered account id with SQLJoy. Required for managed cloud service and server discovery.
      *
-     * @defaultValue window.ENV_ACCOUNT_ID, set in a global by the compiler
+     * @defaultValue window.ENV_ACCOUNT_ID, set in a global by the compiler, if defined
      *
      * @remarks It's free to create an account, no credit card required.
      */
@@ -58,7 +62,7 @@ export interface Settings {
      * The version of the compiled application, stored in global ENV_APP_VERSION by the compiler.
      * If this doesn't match the ENV_APP_VERSION on the server, the versionChangeHandler will be invoked.
      *
-     * @defaultValue window.ENV_APP_VERSION || "" (disabled)
+     * @defaultValue window.ENV_APP_VERSION if defined, otherwise "" (disabled)
      *
      * @see {@link versionChangeHandler} for more information.
      */
@@ -85,6 +89,74 @@ export interface Settings {
      * @defaultValue []
      */
     servers: string[];
+    /**
+     * The time in milliseconds to wait for the health check of each candidate server when choosing
+     * which one to connect to. The client connects to the healthy server with the lowest round-trip time.
+     * Set to 0 to disable the health checks and pick the next healthy server in the (shuffled) list instead.
+     *
+     * @defaultValue 1000
+     */
+    probeTimeoutMs: number;
+    /**
+     * The time in milliseconds a server is excluded from selection after a failed health check or
+     * connection attempt. It doubles with each consecutive failure, up to 5 minutes.
+     *
+     * @see {@link SQLJoy.serverSelection} for the reasoning behind the current choice.
+     *
+     * @defaultValue 5000
+     */
+    serverBlacklistMs: number;
+    /**
+     * The transport used to communicate with the server. Auto uses WebSockets, but falls back to
+     * HTTP if the WebSocket connection can't be established, e.g. if a proxy blocks the upgrade.
+     *
+     * @defaultValue {@link TransportType.Auto}
+     */
+    transport: TransportType;
+    /**
+     * The WebSocket implementation to use, for environments without a global WebSocket,
+     * e.g. the WebSocket class from the ws package in older versions of Node.
+     *
+     * @defaultValue null (use the global WebSocket)
+     */
+    webSocket: WebSocketConstructor | null;
+    /**
+     * The time in milliseconds to wait for a connection to open before giving up on it.
+     *
+     * @defaultValue 10000
+     */
+    connectTimeoutMs: number;
+    /**
+     * Reconnect automatically if the connection to the server is lost, using exponential
+     * backoff with jitter between attempts. Each attempt selects a server again, skipping servers that just failed.
+     *
+     * Requests that were sent but haven't received a result are failed with a ConnectionError,
+     * unless they were marked safe to retry with {@link RequestOptions.readOnly} or
+     * {@link RequestOptions.idempotencyKey}, in which case they're sent again once reconnected.
+     *
+     * @defaultValue true
+     */
+    reconnect: boolean;
+    /**
+     * The delay in milliseconds before the first reconnect attempt. The delay doubles
+     * after each failed attempt, up to maxReconnectDelayMs.
+     *
+     * @defaultValue 100
+     */
+    reconnectDelayMs: number;
+    /**
+     * The maximum delay in milliseconds between reconnect attempts.
+     *
+     * @defaultValue 30000
+     */
+    maxReconnectDelayMs: number;
+    /**
+     * The number of consecutive failed reconnect attempts before giving up and failing
+     * all pending requests with a ConnectionError. Set to 0 to never give up.
+     *
+     * @defaultValue 0
+     */
+    maxReconnectAttempts: number;
     /**
      * Controls registering a beforeunload handler to prompt the user before leaving the page
      * if there are queries/calls in-flight. Since these may be to save user data, navigating
@@ -98,9 +170,94 @@ export interface Settings {
      * The versionChangeHandler is invoked when the server version changes compared to the client version.
      * Set to null to disable, or set to a custom function to customize the behavior.
      *
-     * @defaultValue {@link defaultVersionChangeHandler}
+     * @defaultValue {@link defaultVersionChangeHandler} in a browser, otherwise null
      */
     versionChangeHandler: OnVersionChange | null;
+    /**
+     * Enables the offline queue. Queries and calls not marked {@link RequestOptions.readOnly} are
+     * saved to IndexedDB before they're sent, and removed once the server acknowledges them.
+     * If the connection is lost, or the page is reloaded or crashes first, they're sent again in order
+     * on the next connection. An idempotency key is assigned to each of them if they don't have one,
+     * so the server executes them at most once.
+     *
+     * Queued commands aren't failed with a ConnectionError if the client gives up reconnecting,
+     * they wait for the next connection. Likewise, if one times out (see {@link defaultTimeoutMs}),
+     * the caller's promise is rejected but the command stays queued. Only aborting it with its
+     * {@link RequestOptions.signal} removes it.
+     *
+     * @defaultValue false
+     */
+    offline: boolean;
+    /**
+     * Called when the number of commands in the offline queue changes, e.g. to show a "saving..." indicator.
+     *
+     * @see {@link SQLJoy.queueLength}
+     */
+    onQueueChange: ((length: number) => void) | null;
+    /**
+     * Called when a command from the offline queue fails with a {@link ValidationError}, usually
+     * because the data changed on the server while it was waiting to be sent. The promise returned
+     * for the command is also rejected if it was queued by this page.
+     */
+    onQueueConflict: ((command: QueuedCommand, error: ValidationError) => void) | null;
+    /**
+     * Called when a command from the offline queue fails with any other error. The promise returned
+     * for the command is also rejected if it was queued by this page.
+     */
+    onQueueFailure: ((command: QueuedCommand, error: Error) => void) | null;
+    /**
+     * Share a single server connection between all tabs of the same origin, instead of
+     * connecting once per tab. One tab holds the connection and relays the requests
+     * and results of the others, and another takes over when it's closed.
+     *
+     * @remarks Requires BroadcastChannel and the Web Locks API, otherwise each tab connects on its own.
+     * The connection has a single session, so logging in or out in one tab changes it for all tabs.
+     *
+     * @defaultValue false
+     */
+    sharedConnection: boolean;
+    /**
+     * The maximum number of query results to keep in the cache, see {@link RequestOptions.cache}.
+     * The least recently stored results are removed first.
+     *
+     * @defaultValue 500
+     */
+    cacheMaxEntries: number;
+    /**
+     * The default time in milliseconds to wait for the result of a query or call, or 0 for no limit.
+     * It can be overridden per request with {@link RequestOptions.timeoutMs}.
+     *
+     * @defaultValue 0
+     */
+    defaultTimeoutMs: number;
+    /**
+     * Tell the server we accept query results in the more compact binary protocol, which is
+     * much faster to decode for large results. Disable it to make results readable when
+     * inspecting the traffic in the browser developer tools.
+     *
+     * @defaultValue true
+     */
+    binaryResults: boolean;
+    /**
+     * The number of rows of a streamed query the server may send ahead of the rows consumed,
+     * see {@link RequestOptions.stream}. This bounds the memory used by the buffered rows.
+     *
+     * @defaultValue 1000
+     */
+    streamWindowRows: number;
+    /**
+     * The authentication state to start with, e.g. the value of {@link SQLJoy.auth} saved
+     * by a previous page. If the token has expired, the client starts out anonymous.
+     *
+     * @see {@link SQLJoy.login}
+     */
+    auth: AuthState | null;
+    /**
+     * How long in milliseconds before the session token expires to refresh it.
+     *
+     * @defaultValue 60000
+     */
+    authRefreshMarginMs: number;
     /**
      * The jsonReviver callback is passed to JSON.parse and works as documented here:
      * {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/JSON/parse}
@@ -124,7 +281,8 @@ export function validateSettings(settings: Partial<Settings>): Settings {
     if (settings._valid) {
         return settings as Settings;
     }
-    settings.accountId ||= ENV_ACCOUNT_ID;
+    // The compiler defines these globals for the browser bundle, they don't exist in scripts run with Node or Deno
+    settings.accountId ||= (typeof ENV_ACCOUNT_ID !== "undefined") ? ENV_ACCOUNT_ID : undefined;
 
     if (!settings.discoveryUrl && !settings.servers) {
         throw Error("must provide either a discovery service or a list of servers");
@@ -143,9 +301,32 @@ export function validateSettings(settings: Partial<Settings>): Settings {
 
     settings.jsonReviver = makeJSONReviver(settings.jsonReviver);
     settings.versionChangeHandler ||= null;
-    settings.version ||= ENV_APP_VERSION || "";
+    settings.version ||= ((typeof ENV_APP_VERSION !== "undefined") && ENV_APP_VERSION) || "";
     settings.preventUnload ||= 0; // WAIT_FOR_SEND
     settings.discoveryTTLSeconds ||= 0;
+    settings.probeTimeoutMs ??= 1000;
+    settings.serverBlacklistMs ||= 5000;
+    settings.transport ||= TransportType.Auto;
+    if (settings.transport !== TransportType.Auto && settings.transport !== TransportType.WebSocket && settings.transport !== TransportType.HTTP) {
+        throw Error(`invalid transport: ${settings.transport}`);
+    }
+    settings.webSocket ||= null;
+    settings.connectTimeoutMs ||= 10000;
+    settings.binaryResults ??= true;
+    settings.streamWindowRows ||= 1000;
+    settings.defaultTimeoutMs ||= 0;
+    settings.auth ||= null;
+    settings.authRefreshMarginMs ||= 60000;
+    settings.cacheMaxEntries ||= 500;
+    settings.offline ||= false;
+    settings.sharedConnection ||= false;
+    settings.onQueueChange ||= null;
+    settings.onQueueConflict ||= null;
+    settings.onQueueFailure ||= null;
+    settings.reconnect ??= true;
+    settings.reconnectDelayMs ||= 100;
+    settings.maxReconnectDelayMs ||= 30000;
+    settings.maxReconnectAttempts ||= 0;
     settings._lastServer ||= 0;
     settings._valid = true;
     return settings as Settings;
@@ -154,8 +335,8 @@ export function validateSettings(settings: Partial<Settings>): Settings {
 function makeJSONReviver(jsonReviver?: JSONReviver): JSONReviver {
     return function(this: any, key: string, value: any): any {
         if (isRowsResult(value)) {
-            const {__C_, __R_, __A_} = value;
-            return new ResultRows(__C_, __R_, __A_);
+            const {__C_, __R_, __A_, __P_} = value;
+            return new ResultRows(__C_, __R_, __A_, __P_ || null);
         }
         if (jsonReviver !== undefined) {
             return jsonReviver.call(this, key, value);
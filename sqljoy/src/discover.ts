@@ -1,31 +1,241 @@
-import {shuffleArray} from "./util";
-import {Settings} from "./config";
+import {shuffleArray, isString} from "./util.js";
+import {Settings} from "./config.js";
 
-export async function getServerUrl(settings: Settings): Promise<string> {
+// Server selection prefers the healthy server with the lowest measured round-trip time.
+//
+// Candidates come from Settings.servers or the discovery service. Each is probed with a
+// request to /health, and the RTT is cached for a minute. Servers that fail a probe or a
+// connection attempt are put on a blacklist (the circuit breaker is open) for a time that doubles
+// with each consecutive failure, and aren't tried again until it expires, unless all of them
+// are blacklisted. A successful connection closes the circuit again.
+//
+// The state is kept per page rather than per client, since it's about the servers, not the client.
+
+const RTT_TTL_MS = 60000;
+const MAX_BLACKLIST_MS = 300000;
+
+/**
+ * ServerCandidate describes what we know about a server considered by {@link ServerSelection}.
+ */
+export interface ServerCandidate {
+    /**
+     * The host (and optional port) of the server.
+     */
+    server: string;
+    /**
+     * The last measured round-trip time to the server in milliseconds, or null if it wasn't probed.
+     */
+    rttMs: number | null;
+    /**
+     * The time until which the server is excluded after failing, in milliseconds since the epoch, or 0 if it's healthy.
+     */
+    blacklistedUntil: number;
+    /**
+     * The most recent error probing or connecting to the server, or null if there is none.
+     */
+    error: Error | null;
+}
+
+/**
+ * ServerSelection explains why the client chose the server it connects to, for debugging.
+ *
+ * @see {@link SQLJoy.serverSelection}
+ */
+export interface ServerSelection {
+    /**
+     * The host of the chosen server, or "" if the default server for the account was used.
+     */
+    server: string;
+    /**
+     * The url the client connects to.
+     */
+    url: string;
+    /**
+     * A human readable explanation of the choice.
+     */
+    reason: string;
+    /**
+     * All the servers that were considered.
+     */
+    candidates: ServerCandidate[];
+    /**
+     * The error from the discovery service, if it failed.
+     */
+    discoveryError: Error | null;
+}
+
+interface ServerHealth {
+    rttMs: number | null;
+    probedAt: number;
+    failures: number;
+    blacklistedUntil: number;
+    error: Error | null;
+}
+
+const serverCache = {
+    servers: [] as string[],
+    error: null as Error | null,
+    refreshedAt: new Date(2020),
+};
+
+const serverHealth: Map<string, ServerHealth> = new Map();
+
+function healthOf(server: string): ServerHealth {
+    let health = serverHealth.get(server);
+    if (health === undefined) {
+        health = {rttMs: null, probedAt: 0, failures: 0, blacklistedUntil: 0, error: null};
+        serverHealth.set(server, health);
+    }
+    return health;
+}
+
+/**
+ * @internal
+ * Record a failure to reach the server, opening its circuit breaker.
+ *
+ * @param settings the settings of the client
+ * @param server the host of the server
+ * @param error the reason it failed
+ */
+export function markServerFailed(settings: Settings, server: string, error: Error) {
+    if (!server) {
+        return;
+    }
+    const health = healthOf(server);
+    const delay = Math.min(MAX_BLACKLIST_MS, settings.serverBlacklistMs * Math.pow(2, health.failures));
+    health.failures++;
+    health.blacklistedUntil = (new Date()).getTime() + delay;
+    health.error = error;
+}
+
+/**
+ * @internal
+ * Record a successful connection to the server, closing its circuit breaker.
+ *
+ * @param server the host of the server
+ */
+export function markServerHealthy(server: string) {
+    if (!server) {
+        return;
+    }
+    const health = healthOf(server);
+    health.failures = 0;
+    health.blacklistedUntil = 0;
+    health.error = null;
+}
+
+/**
+ * @internal
+ * Choose the server to connect to.
+ *
+ * @throws Error if there are no servers and no account to fall back to the default server for.
+ */
+export async function selectServer(settings: Settings): Promise<ServerSelection> {
+    let discoveryError: Error | null = null;
     let servers = settings.servers;
     if (!servers) {
-        servers = await maybeRefreshServers(settings);
+        try {
+            servers = await maybeRefreshServers(settings);
+            // Set if we're using the previous list because the last refresh failed
+            discoveryError = serverCache.error;
+        } catch (e: any) {
+            discoveryError = e;
+            servers = serverCache.servers;
+        }
     }
 
-    if (servers && servers.length !== 0) {
-        if (settings._lastServer >= servers.length) {
-            settings._lastServer = 0;
+    if (servers.length === 0) {
+        if (!settings.accountId) {
+            throw Error(`no server found: ${discoveryError ? discoveryError.message : "the server list is empty"}`);
+        }
+        // This should work even if the discovery service is down
+        return {
+            server: "",
+            url: `wss://${settings.accountId}.sqljoy.com`,
+            reason: discoveryError ? `discovery failed (${discoveryError.message}), using the default server` : "no servers listed, using the default server",
+            candidates: [],
+            discoveryError,
+        };
+    }
+
+    let now = (new Date()).getTime();
+    let healthy = servers.filter(server => healthOf(server).blacklistedUntil <= now);
+    if (healthy.length === 0 && !settings.servers && discoveryError === null) {
+        // The list may be out of date
+        try {
             servers = await maybeRefreshServers(settings, true);
+            now = (new Date()).getTime();
+            healthy = servers.filter(server => healthOf(server).blacklistedUntil <= now);
+        } catch (e: any) {
+            discoveryError = e;
+        }
+    }
+
+    if (healthy.length === 0) {
+        const server = servers.reduce((a, b) => (healthOf(b).blacklistedUntil < healthOf(a).blacklistedUntil) ? b : a);
+        return selection(server, servers, discoveryError, `all ${servers.length} servers failed recently, trying the one that failed longest ago`);
+    }
+
+    if (settings.probeTimeoutMs === 0 || healthy.length === 1) {
+        // Without probes, spread clients over the servers (the list is shuffled)
+        if (settings._lastServer >= healthy.length) {
+            settings._lastServer = 0;
         }
-        return `wss://${servers[settings._lastServer++]}`;
+        const server = healthy[settings._lastServer++];
+        const reason = (healthy.length === 1) ? "the only healthy server" : `next of ${healthy.length} healthy servers, probing is disabled`;
+        return selection(server, servers, discoveryError, reason);
     }
 
-    if (!settings.accountId) {
-        throw Error(`no server found: ${serverCache.error || "unknown error"}`);
+    await Promise.all(healthy.map(server => probeServer(settings, server)));
+    now = (new Date()).getTime();
+    const reachable = healthy.filter(server => healthOf(server).blacklistedUntil <= now && healthOf(server).rttMs !== null);
+    if (reachable.length === 0) {
+        return selection(healthy[0], servers, discoveryError, `no server responded to the health check within ${settings.probeTimeoutMs}ms, trying one anyway`);
     }
-    return `wss://${settings.accountId}.sqljoy.com`; // should work even if discovery service is down
+    const server = reachable.reduce((a, b) => (healthOf(b).rttMs! < healthOf(a).rttMs!) ? b : a);
+    return selection(server, servers, discoveryError, `fastest of ${reachable.length} healthy servers (${healthOf(server).rttMs}ms)`);
 }
 
-const serverCache = {
-    servers: [] as string[],
-    error: "",
-    refreshedAt: new Date(2020),
-};
+function selection(server: string, servers: string[], discoveryError: Error | null, reason: string): ServerSelection {
+    return {
+        server,
+        url: `wss://${server}`,
+        reason,
+        candidates: servers.map(s => {
+            const {rttMs, blacklistedUntil, error} = healthOf(s);
+            return {server: s, rttMs, blacklistedUntil, error};
+        }),
+        discoveryError,
+    };
+}
+
+/**
+ * Measure the round-trip time of a health check request to the server, unless we have a recent measurement.
+ * A server that doesn't respond successfully in time is marked failed.
+ */
+async function probeServer(settings: Settings, server: string): Promise<void> {
+    const health = healthOf(server);
+    const start = (new Date()).getTime();
+    if (health.rttMs !== null && start - health.probedAt < RTT_TTL_MS) {
+        return;
+    }
+
+    const abort = new AbortController();
+    const timer = setTimeout(() => abort.abort(), settings.probeTimeoutMs);
+    try {
+        const res = await fetch(`https://${server}/health`, {method: "HEAD", cache: "no-store", signal: abort.signal});
+        if (!res.ok) {
+            throw Error(`health check failed: ${res.status} ${res.statusText}`);
+        }
+        health.probedAt = (new Date()).getTime();
+        health.rttMs = health.probedAt - start;
+    } catch (e: any) {
+        health.rttMs = null;
+        markServerFailed(settings, server, abort.signal.aborted ? Error(`health check timed out after ${settings.probeTimeoutMs}ms`) : e);
+    } finally {
+        clearTimeout(timer);
+    }
+}
 
 async function maybeRefreshServers(settings: Settings, force: boolean = false): Promise<string[]> {
     if (!settings.discoveryUrl) {
@@ -36,7 +246,17 @@ async function maybeRefreshServers(settings: Settings, force: boolean = false):
     if (!force && (now.getTime() - serverCache.refreshedAt.getTime()) < (settings.discoveryTTLSeconds * 1000)) {
         return serverCache.servers;
     }
-    return refreshServers(settings, force, now).catch(e => serverCache.error = e.message);
+    try {
+        return await refreshServers(settings, force, now);
+    } catch (e: any) {
+        serverCache.error = e;
+        if (serverCache.servers.length !== 0) {
+            // A stale list is better than none
+            console.warn("unable to refresh the server list, using the previous one", e);
+            return serverCache.servers;
+        }
+        throw e;
+    }
 }
 
 export async function refreshServers(settings: Settings, force: boolean = false, refreshedAt: Date = new Date()): Promise<string[]> {
@@ -46,13 +266,16 @@ export async function refreshServers(settings: Settings, force: boolean = false,
 
     const res = await fetch(settings.discoveryUrl);
     if (!res.ok) {
-        throw Error(`${res.status} ${res.statusText}`);
+        throw Error(`discovery service returned ${res.status} ${res.statusText}`);
     }
 
     const servers = await res.json();
+    if (!Array.isArray(servers) || !servers.every(isString)) {
+        throw Error("discovery service returned an invalid server list, expected an Array of strings");
+    }
     shuffleArray(servers);
     serverCache.servers = servers;
     serverCache.refreshedAt = refreshedAt;
-    serverCache.error = "";
+    serverCache.error = null;
     return servers;
-}
\ No newline at end of file
+}
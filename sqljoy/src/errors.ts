@@ -5,21 +5,164 @@ export enum Errors {
     ServerError = "ServerError",
     BadResult = "BadResult",
     ValidationError = "ValidationError",
+    Timeout = "Timeout",
+    Unauthorized = "Unauthorized",
+    IncompatibleProtocol = "IncompatibleProtocol",
+    /**
+     * Any database error without a more specific type, see {@link ServerError.code} for the SQLSTATE.
+     */
+    DatabaseError = "DatabaseError",
+    /**
+     * A unique or primary key constraint was violated (SQLSTATE 23505).
+     */
+    UniqueViolation = "UniqueViolation",
+    /**
+     * A foreign key constraint was violated (SQLSTATE 23503).
+     */
+    ForeignKeyViolation = "ForeignKeyViolation",
+    /**
+     * The transaction couldn't be serialized with concurrent transactions, or was chosen to
+     * resolve a deadlock (SQLSTATE 40001 or 40P01). Retrying the transaction may succeed.
+     */
+    SerializationFailure = "SerializationFailure",
+    /**
+     * The database user lacks the privilege for the operation, e.g. blocked by row level security (SQLSTATE 42501).
+     */
+    PermissionDenied = "PermissionDenied",
+}
+
+/**
+ * DatabaseErrorFields are the details PostgreSQL reports about an error, see {@link ServerError}.
+ * Fields that don't apply to the error are null.
+ */
+export interface DatabaseErrorFields {
+    /**
+     * The SQLSTATE code of the error, e.g. "23505" for a unique violation.
+     */
+    code: string | null;
+    /**
+     * The name of the constraint that was violated.
+     */
+    constraint: string | null;
+    /**
+     * The name of the table the error relates to.
+     */
+    table: string | null;
+    /**
+     * The name of the column the error relates to.
+     */
+    column: string | null;
+    /**
+     * A secondary message with more detail, e.g. the conflicting key of a unique violation.
+     */
+    detail: string | null;
+    /**
+     * A suggestion of what to do about the error.
+     */
+    hint: string | null;
+}
+
+const errorTypesByCode: Record<string, Errors> = {
+    "23505": Errors.UniqueViolation,
+    "23503": Errors.ForeignKeyViolation,
+    "40001": Errors.SerializationFailure,
+    "40P01": Errors.SerializationFailure,
+    "42501": Errors.PermissionDenied,
+};
+
+/**
+ * @internal
+ * Returns the error type for a SQLSTATE code.
+ */
+export function errorTypeForCode(code: string): Errors {
+    return errorTypesByCode[code] || Errors.DatabaseError;
+}
+
+/**
+ * AbortError is thrown when a query or call is cancelled with the AbortSignal passed in {@link RequestOptions.signal}.
+ */
+export class AbortError extends Error {
+    constructor(message: string = "request aborted") {
+        super(message);
+        this.name = "AbortError";
+    }
+}
+
+/**
+ * BatchError is thrown by {@link SQLJoy.batch} if any of the queries in the batch failed.
+ *
+ * @member message the message of the first error
+ */
+export class BatchError extends Error {
+    /**
+     * The result of each query in the batch, in order. Queries that failed have an Error instead of a result.
+     */
+    results: any[];
+
+    constructor(results: any[]) {
+        const first = results.find(r => r instanceof Error);
+        super(first ? first.message : "batch failed");
+        this.name = "BatchError";
+        this.results = results;
+    }
+
+    /**
+     * Returns the errors of the queries that failed, in order.
+     */
+    errors(): Error[] {
+        return this.results.filter(r => r instanceof Error);
+    }
 }
 
 /**
  * An Error representing an error returned by the server.
  *
+ * Errors raised by the database carry the details PostgreSQL reports, and have a specific type for common
+ * errors, so they can be handled without matching the message.
+ *
+ * @example Report a duplicate email address
+ * ```
+ * try {
+ *     await client.executeQuery(sql`INSERT INTO users (email) VALUES (${email})`);
+ * } catch (e) {
+ *     if (e instanceof ServerError && e.type() === Errors.UniqueViolation && e.constraint === "users_email_key") {
+ *         showError("That email address is already registered");
+ *     } else {
+ *         throw e;
+ *     }
+ * }
+ * ```
+ *
  * @member name - the errorType {@link Errors} from the server
  */
-export class ServerError extends Error {
-    constructor(message: string, errorType: Errors = Errors.ServerError) {
+export class ServerError extends Error implements DatabaseErrorFields {
+    code: string | null = null;
+    constraint: string | null = null;
+    table: string | null = null;
+    column: string | null = null;
+    detail: string | null = null;
+    hint: string | null = null;
+
+    /**
+     * @param message the error message
+     * @param errorType the type of error
+     * @param fields the details of a database error, if it is one
+     */
+    constructor(message: string, errorType: Errors = Errors.ServerError, fields: Partial<DatabaseErrorFields> | null = null) {
         super(message);
         this.name = errorType;
+        if (fields !== null) {
+            this.code = fields.code || null;
+            this.constraint = fields.constraint || null;
+            this.table = fields.table || null;
+            this.column = fields.column || null;
+            this.detail = fields.detail || null;
+            this.hint = fields.hint || null;
+        }
     }
 
     /**
-     *
+     * Returns the type of the error.
      */
     type(): Errors {
         return this.name as Errors;
@@ -4,10 +4,24 @@
  * @module sqljoy (client)
  */
 
-export {sql, SQL} from "./sql";
-export {WaitBehavior, OnVersionChange, Settings} from "./config";
-export * from "./client";
-export {Result, ResultRows, Row} from "./result";
-export * from "./validation";
-export * from "./errors";
-export {getAllClients, getClient} from "./registry";
+export {sql, SQL} from "./sql.js";
+export {ParamSchema, previewParams} from "./schema.js";
+export {WaitBehavior, OnVersionChange, Settings} from "./config.js";
+export * from "./client.js";
+export {RequestOptions} from "./options.js";
+export {TransportType, WebSocketConstructor} from "./transport.js";
+export {ServerSelection, ServerCandidate} from "./discover.js";
+export {Capabilities, Capability} from "./protocol.js";
+export {PaginateOptions, Paginator} from "./paginate.js";
+export {RowStream} from "./stream.js";
+export {QueuedCommand} from "./offline.js";
+export {Subscription, OnDataChange, RowsDiff} from "./subscription.js";
+export {AuthState, OnAuthChange} from "./auth.js";
+export {CacheOptions, CacheFilter} from "./cache.js";
+export {Command, Middleware, Next} from "./middleware.js";
+export {Result, ResultRows, Row} from "./result.js";
+export {PgType, Range, TypeDecoder, setTypeDecoder} from "./pgtypes.js";
+export * from "./validation.js";
+export * from "./validators.js";
+export * from "./errors.js";
+export {getAllClients, getClient} from "./registry.js";
@@ -0,0 +1,70 @@
+import type {RequestOptions} from "./options.js";
+import type {Result} from "./result.js";
+import type {RowStream} from "./stream.js";
+
+/**
+ * Command describes a request to the server as it passes through the {@link Middleware} pipeline.
+ * Middleware can modify any of its properties before passing it on.
+ */
+export interface Command {
+    /**
+     * The {@link CommandType} of the request.
+     */
+    type: string;
+    /**
+     * The query hash for queries and subscriptions, or the server function for calls.
+     */
+    target: string;
+    /**
+     * The query params and fragments for queries, the arguments for calls, or the HELLO handshake fields.
+     */
+    args: Record<string, any> | any[];
+    /**
+     * The options for the request, if any.
+     */
+    options: RequestOptions | null;
+    /**
+     * Metadata sent to the server along with the request, e.g. to pass along tracing ids or
+     * feature flags. It must be serializable as JSON.
+     */
+    headers: Record<string, any>;
+    /**
+     * @internal
+     * The stream receiving the rows of a streamed query.
+     */
+    stream?: RowStream;
+}
+
+/**
+ * Next passes the command to the next middleware, or sends it if this is the last one.
+ * It returns a promise for the decoded result, which rejects with the error if the request fails.
+ */
+export type Next = (command: Command) => Promise<Result>;
+
+/**
+ * Middleware intercepts requests sent by the client, see {@link SQLJoy.use}.
+ *
+ * It can inspect and modify the command before calling next, and the result or error
+ * after. It can also return a result without calling next at all.
+ *
+ * @example Log every request with timing
+ * ```
+ * client.use(async (command, next) => {
+ *     const start = performance.now();
+ *     try {
+ *         return await next(command);
+ *     } finally {
+ *         console.log(command.type, command.target, performance.now() - start);
+ *     }
+ * });
+ * ```
+ */
+export type Middleware = (command: Command, next: Next) => Promise<Result>;
+
+/**
+ * @internal
+ * compose chains the middleware, in order, in front of send.
+ */
+export function compose(middleware: Middleware[], send: Next): Next {
+    return middleware.reduceRight<Next>((next, mw) => (command: Command) => mw(command, next), send);
+}
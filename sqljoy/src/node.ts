@@ -0,0 +1,47 @@
+/**
+ * The client library for Node, Deno, and other environments without a DOM, e.g. for server-side
+ * rendering or maintenance scripts. It exports everything the browser entry point does, plus
+ * {@link createClient}.
+ *
+ * @module sqljoy/node (client)
+ */
+
+import {Settings, WaitBehavior} from "./config.js";
+import {SQLJoy} from "./client.js";
+import {TransportType} from "./transport.js";
+
+export * from "./index.js";
+
+/**
+ * createClient creates a client with defaults suitable for running outside a browser.
+ *
+ * Unlike {@link getClient} it always creates a new client, it's up to the caller to
+ * {@link SQLJoy.close} it. There are no compiler globals here, so pass the accountId
+ * (or servers) explicitly.
+ *
+ * @remarks Compared to the browser defaults, there is no beforeunload prompt or reload on version change,
+ * and if there is no global WebSocket and none is passed in {@link Settings.webSocket}, the HTTP transport is used.
+ *
+ * @example Run a query from a script in Node
+ * ```
+ * import WebSocket from "ws";
+ * import {createClient} from "sqljoy/node";
+ *
+ * const client = createClient({accountId: process.env.SQLJOY_ACCOUNT_ID, webSocket: WebSocket});
+ * const result = await client.executeQuery(query);
+ * await client.drain();
+ * client.close();
+ * ```
+ *
+ * @param settings - client configuration and options
+ */
+export function createClient(settings: Partial<Settings>): SQLJoy {
+    const defaults: Partial<Settings> = {
+        preventUnload: WaitBehavior.NEVER,
+        versionChangeHandler: null,
+    };
+    if (!settings.webSocket && typeof WebSocket === "undefined") {
+        defaults.transport = TransportType.HTTP;
+    }
+    return new SQLJoy(Object.assign(defaults, settings));
+}
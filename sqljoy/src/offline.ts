@@ -0,0 +1,111 @@
+// The offline queue persists outgoing commands that modify data to IndexedDB before they're sent,
+// and removes them once the server acknowledges them. If the page is closed, crashes, or the device
+// goes offline before that, the commands are restored the next time a client with the same account
+// is created and sent again on its first connection, in their original order.
+//
+// Commands are always queued with an idempotency key, so sending one again that the server
+// already executed is safe.
+
+const STORE = "commands";
+
+/**
+ * A command persisted in the offline queue.
+ */
+export interface QueuedCommand {
+    /**
+     * The key assigned by IndexedDB, which increases with each command added.
+     */
+    key?: number;
+    /**
+     * The command type, "Q" for a query or "C" for a server call.
+     */
+    cmd: string;
+    /**
+     * The query hash or server function being called.
+     */
+    target: string;
+    /**
+     * The query params or call arguments.
+     */
+    args: Record<string, any> | any[];
+    idempotencyKey: string;
+    /**
+     * Metadata sent along with the command, see {@link Command.headers}.
+     */
+    headers?: Record<string, any>;
+    /**
+     * The time the command was queued, in milliseconds since the epoch.
+     */
+    queuedAt: number;
+}
+
+/**
+ * @internal
+ * OfflineQueue is a persistent FIFO queue of commands stored in IndexedDB.
+ */
+export class OfflineQueue {
+    protected name: string;
+    protected db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param name the name of the IndexedDB database
+     */
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    /**
+     * True if IndexedDB is available in this environment.
+     */
+    static supported(): boolean {
+        return typeof indexedDB !== "undefined";
+    }
+
+    /**
+     * Add a command to the end of the queue, returning its key.
+     */
+    async add(command: QueuedCommand): Promise<number> {
+        const key = await this.run("readwrite", store => store.add(command));
+        return key as number;
+    }
+
+    /**
+     * Remove the command with the given key.
+     */
+    async remove(key: number): Promise<void> {
+        await this.run("readwrite", store => store.delete(key));
+    }
+
+    /**
+     * Get all commands in the queue, in the order they were added.
+     */
+    async list(): Promise<QueuedCommand[]> {
+        return this.run("readonly", store => store.getAll());
+    }
+
+    protected open(): Promise<IDBDatabase> {
+        if (this.db === null) {
+            this.db = new Promise<IDBDatabase>((resolve, reject) => {
+                const req = indexedDB.open(this.name, 1);
+                req.onupgradeneeded = () => {
+                    req.result.createObjectStore(STORE, {keyPath: "key", autoIncrement: true});
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+        }
+        return this.db;
+    }
+
+    protected async run(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE, mode);
+            const req = op(tx.objectStore(STORE));
+            // Resolve once the transaction commits, so the change is durable
+            tx.oncomplete = () => resolve(req.result);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
@@ -0,0 +1,104 @@
+import type {CacheOptions} from "./cache.js";
+
+/**
+ * RequestOptions customizes how an individual query or server call is sent and handled.
+ *
+ * Pass an instance along with the validators to {@link SQLJoy.executeQuery}, or along with the
+ * arguments to a server call. It's recognized by type and removed before the validators run or
+ * the arguments are sent to the server.
+ *
+ * @example Mark a query as safe to retry
+ * ```
+ * const result = await client.executeQuery(query, params, new RequestOptions({readOnly: true}));
+ * ```
+ */
+export class RequestOptions {
+    /**
+     * Marks the request as a read. Reads don't modify data, so they're safe to send again
+     * if the connection is lost before the result is received.
+     *
+     * @defaultValue false
+     */
+    readOnly: boolean = false;
+    /**
+     * A unique key for this request. The server executes a request with a given key at most once,
+     * which makes it safe to send again if the connection is lost before the result is received.
+     *
+     * @defaultValue "" (none)
+     */
+    idempotencyKey: string = "";
+    /**
+     * An AbortSignal to cancel the request. Aborting rejects the request with an {@link AbortError},
+     * and if it was already sent, tells the server to cancel it.
+     *
+     * @defaultValue null
+     */
+    signal: AbortSignal | null = null;
+    /**
+     * The time in milliseconds to wait for the result, including time spent waiting for a connection.
+     * If it passes, the request is rejected with a {@link ServerError} of type {@link Errors.Timeout}
+     * and the server is told to cancel it. The server also receives the deadline, and cancels the request
+     * on its own if it passes. Set to 0 for no timeout.
+     *
+     * @defaultValue null, which uses {@link Settings.defaultTimeoutMs}
+     */
+    timeoutMs: number | null = null;
+    /**
+     * Cache the result of the query on the client, see {@link CacheOptions}. Implies readOnly.
+     * Only applies to {@link SQLJoy.executeQuery}.
+     *
+     * @remarks Identical reads (queries marked readOnly or cached, with the same params) that are
+     * executed while one is already waiting for its result share that request, unless they have a signal.
+     *
+     * @defaultValue null
+     */
+    cache: CacheOptions | null = null;
+    /**
+     * Deliver the rows of the query incrementally as a {@link RowStream}, rather than all at once.
+     * Use it for large results, the first rows are available before the query finishes and memory use stays bounded.
+     * Only applies to {@link SQLJoy.executeQuery}, and can't be combined with cache.
+     *
+     * @remarks A streamed query is never sent again after the connection is lost, since the rows already
+     * consumed can't be taken back. The stream fails with a {@link ConnectionError} instead.
+     *
+     * @defaultValue false
+     */
+    stream: boolean = false;
+
+    constructor(options: Partial<RequestOptions> = {}) {
+        Object.assign(this, options);
+    }
+}
+
+/**
+ * @internal
+ * splitOptions removes any RequestOptions from args, returning them merged into a single object
+ * (or null if there were none) along with the remaining args.
+ *
+ * @param args validators or server call arguments that may contain RequestOptions
+ */
+export function splitOptions<T>(args: (T | RequestOptions)[]): [RequestOptions | null, T[]] {
+    let options: RequestOptions | null = null;
+    const rest: T[] = [];
+    for (const arg of args) {
+        if (arg instanceof RequestOptions) {
+            options = (options === null) ? arg : new RequestOptions(Object.assign({}, options, arg));
+        } else {
+            rest.push(arg);
+        }
+    }
+    return [options, rest];
+}
+
+/**
+ * @internal
+ * requestMeta returns the metadata about a request that's sent to the server, or null if there is none.
+ *
+ * @param options the options for the request
+ */
+export function requestMeta(options: RequestOptions | null): Record<string, any> | null {
+    if (options === null || !options.idempotencyKey) {
+        return null;
+    }
+    return {idempotencyKey: options.idempotencyKey};
+}
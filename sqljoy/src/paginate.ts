@@ -0,0 +1,136 @@
+import {Result, ResultRows} from "./result.js";
+import {bigIntReplacer} from "./pgtypes.js";
+
+/**
+ * PaginateOptions configures the keyset pagination of a query with {@link SQLJoy.paginate}.
+ */
+export interface PaginateOptions {
+    /**
+     * The number of rows per page.
+     */
+    pageSize: number;
+    /**
+     * The columns of the result that determine its order, and together identify a row uniquely,
+     * e.g. ["created_at", "id"]. Their values in the last row of a page are the cursor for the next page.
+     */
+    cursorColumns: string[];
+    /**
+     * A cursor saved from {@link Paginator.cursor} to resume after, instead of starting from the first page.
+     */
+    cursor?: string | null;
+}
+
+// The names of the params the page size and cursor values are passed to the query in
+const PAGE_SIZE_PARAM = "pageSize";
+const CURSOR_PARAM_PREFIX = "cursor_";
+
+/**
+ * Paginator is the async iterator of pages returned by {@link SQLJoy.paginate}.
+ *
+ * @example Load the next page when scrolling to the end of the list
+ * ```
+ * const pages = client.paginate(query, {pageSize: 50, cursorColumns: ["id"]});
+ * async function loadMore() {
+ *     const {value, done} = await pages.next();
+ *     if (!done) {
+ *         render([...value]);
+ *     }
+ * }
+ * ```
+ */
+export class Paginator implements AsyncIterableIterator<ResultRows> {
+    /**
+     * False once the last page has been returned.
+     */
+    hasMore: boolean = true;
+    /**
+     * The serialized cursor after the last page returned, or null before the first page.
+     * Pass it in {@link PaginateOptions.cursor} to resume from here later, e.g. after a reload.
+     */
+    cursor: string | null;
+    protected options: PaginateOptions;
+    protected fetch: (params: Record<string, any>) => Promise<Result>;
+    protected last: Promise<any> = Promise.resolve();
+
+    /**
+     * @internal
+     */
+    constructor(options: PaginateOptions, fetch: (params: Record<string, any>) => Promise<Result>) {
+        if (!(options.pageSize > 0) || !Array.isArray(options.cursorColumns) || options.cursorColumns.length === 0) {
+            throw Error("paginate requires a positive pageSize and at least one cursor column");
+        }
+        this.options = options;
+        this.fetch = fetch;
+        this.cursor = options.cursor || null;
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<ResultRows> {
+        return this;
+    }
+
+    /**
+     * Fetch the next page. Calls made while a page is loading wait for it, so pages are never skipped or repeated.
+     */
+    next(): Promise<IteratorResult<ResultRows>> {
+        const page = this.last.then(() => this.fetchPage());
+        // A failed page can be retried by calling next again
+        this.last = page.catch(() => {});
+        return page;
+    }
+
+    /**
+     * Stop iterating, e.g. when breaking out of a for await loop.
+     */
+    async return(): Promise<IteratorResult<ResultRows>> {
+        this.hasMore = false;
+        return {value: undefined, done: true};
+    }
+
+    protected async fetchPage(): Promise<IteratorResult<ResultRows>> {
+        if (!this.hasMore) {
+            return {value: undefined, done: true};
+        }
+
+        const {pageSize, cursorColumns} = this.options;
+        const values = (this.cursor !== null) ? decodeCursor(this.cursor, cursorColumns.length) : cursorColumns.map(() => null);
+        const params: Record<string, any> = {[PAGE_SIZE_PARAM]: pageSize + 1};
+        cursorColumns.forEach((column, i) => params[CURSOR_PARAM_PREFIX + column] = values[i]);
+
+        // We ask for one row more than a page, to know if there is another page without fetching it
+        const result = await this.fetch(params);
+        if (!(result instanceof ResultRows)) {
+            throw Error("paginated query must return rows");
+        }
+        this.hasMore = result.rows.length > pageSize;
+        const rows = result.rows.slice(0, pageSize);
+        if (rows.length !== 0) {
+            const last = rows[rows.length - 1];
+            this.cursor = JSON.stringify(cursorColumns.map(column => {
+                const i = result.columns.indexOf(column);
+                if (i < 0) {
+                    throw Error(`cursor column ${column} is not in the result`);
+                }
+                return last[i];
+            }), bigIntReplacer);
+        }
+        if (rows.length === 0) {
+            return {value: undefined, done: true};
+        }
+        const page = new ResultRows(result.columns, rows, rows.length);
+        page.types = result.types;
+        return {value: page, done: false};
+    }
+}
+
+function decodeCursor(cursor: string, length: number): any[] {
+    let values: any;
+    try {
+        values = JSON.parse(cursor);
+    } catch (e) {
+        values = null;
+    }
+    if (!Array.isArray(values) || values.length !== length) {
+        throw Error("invalid pagination cursor");
+    }
+    return values;
+}
@@ -0,0 +1,364 @@
+// Query results carry the PostgreSQL type OID of each column (__P_ in the JSON protocol), and the
+// values of types JSON can't represent faithfully are sent in PostgreSQL's text format as strings.
+// ResultRows decodes them using the decoder registered for the column type, types without a decoder
+// are left as received. This module is shared by the client and the runtime, so results decode
+// the same way in both.
+
+/**
+ * The OIDs of the PostgreSQL types with a default decoder, see {@link setTypeDecoder}.
+ */
+export enum PgType {
+    Bool = 16,
+    Bytea = 17,
+    Int8 = 20,
+    Int2 = 21,
+    Int4 = 23,
+    Text = 25,
+    Oid = 26,
+    JSON = 114,
+    Float4 = 700,
+    Float8 = 701,
+    Varchar = 1043,
+    Date = 1082,
+    Timestamp = 1114,
+    TimestampTZ = 1184,
+    Numeric = 1700,
+    UUID = 2950,
+    JSONB = 3802,
+
+    JSONArray = 199,
+    BoolArray = 1000,
+    ByteaArray = 1001,
+    Int2Array = 1005,
+    Int4Array = 1007,
+    TextArray = 1009,
+    VarcharArray = 1015,
+    Int8Array = 1016,
+    Float4Array = 1021,
+    Float8Array = 1022,
+    OidArray = 1028,
+    TimestampArray = 1115,
+    DateArray = 1182,
+    TimestampTZArray = 1185,
+    NumericArray = 1231,
+    UUIDArray = 2951,
+    JSONBArray = 3807,
+
+    Int4Range = 3904,
+    NumRange = 3906,
+    TsRange = 3908,
+    TstzRange = 3910,
+    DateRange = 3912,
+    Int8Range = 3926,
+}
+
+/**
+ * TypeDecoder converts a column value as received from the server to the value in the result.
+ * The value is a string in PostgreSQL's text format, unless JSON can represent it (e.g. numbers and booleans),
+ * and is never null.
+ */
+export type TypeDecoder = (value: any) => any;
+
+/**
+ * Range is the decoded value of a PostgreSQL range type, e.g. tstzrange.
+ */
+export interface Range<T> {
+    /**
+     * The lower bound, or null if it's unbounded.
+     */
+    lower: T | null;
+    /**
+     * The upper bound, or null if it's unbounded.
+     */
+    upper: T | null;
+    lowerInclusive: boolean;
+    upperInclusive: boolean;
+    /**
+     * True if the range contains no values, in which case both bounds are null.
+     */
+    empty: boolean;
+}
+
+const BigIntConstructor: ((value: any) => any) | undefined = (globalThis as any).BigInt;
+
+function decodeNumber(value: any): number {
+    return (typeof value === "number") ? value : Number(value);
+}
+
+function decodeBool(value: any): boolean {
+    return (typeof value === "boolean") ? value : value === "t" || value === "true";
+}
+
+function decodeString(value: any): string {
+    return String(value);
+}
+
+function decodeJSON(value: any): any {
+    // json values are always sent as their text, so a json string isn't mistaken for the text of a json value
+    return JSON.parse(value);
+}
+
+function decodeBigInt(value: any): any {
+    // Without BigInt support, a decimal string at least keeps all the digits
+    return (BigIntConstructor !== undefined) ? BigIntConstructor(value) : String(value);
+}
+
+function decodeBytea(value: any): any {
+    if (value instanceof Uint8Array || typeof value !== "string" || !value.startsWith("\\x")) {
+        return value;
+    }
+    const bytes = new Uint8Array((value.length - 2) >> 1);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(value.substr(2 + i * 2, 2), 16);
+    }
+    return bytes;
+}
+
+const TIMESTAMP_RE = /^(\d{4,})-(\d\d)-(\d\d)(?:[ T](\d\d):(\d\d):(\d\d)(\.\d+)?)?(?:(Z)|([+-])(\d\d)(?::?(\d\d))?(?::?(\d\d))?)?( BC)?$/;
+
+/**
+ * Decode a date, timestamp, or timestamptz. A timestamp without a time zone is taken to be UTC.
+ * Values a Date can't represent, like infinity or years out of its range, are left as strings.
+ */
+function decodeTimestamp(value: any): any {
+    const m = (typeof value === "string") ? TIMESTAMP_RE.exec(value) : null;
+    if (m === null) {
+        return value;
+    }
+    const ms = m[7] ? Math.round(parseFloat(m[7]) * 1000) : 0;
+    // There's no year 0 in PostgreSQL, 1 BC is year 0 of a Date
+    const year = m[13] ? 1 - +m[1] : +m[1];
+    // The runtime replaces the Date constructor, only the no argument form is safe to use everywhere
+    const date = new Date();
+    date.setTime(Date.UTC(2000, 0, 1, +(m[4] || 0), +(m[5] || 0), +(m[6] || 0), ms));
+    // Date.UTC maps years 0-99 to 1900-1999, setUTCFullYear doesn't
+    date.setUTCFullYear(year, +m[2] - 1, +m[3]);
+    if (m[9]) {
+        const offset = ((+m[10] * 60 + +(m[11] || 0)) * 60 + +(m[12] || 0)) * 1000;
+        date.setTime(date.getTime() + ((m[9] === "+") ? -offset : offset));
+    }
+    return isNaN(date.getTime()) ? value : date;
+}
+
+/**
+ * Split the text of a PostgreSQL array into its (possibly nested) elements, decoding each non-null element.
+ */
+function parseArray(text: string, decode: TypeDecoder): any[] {
+    // Skip the optional dimensions, e.g. [0:2]={1,2,3}
+    let pos = (text[0] === "[") ? text.indexOf("=") + 1 : 0;
+
+    function parse(): any[] {
+        const result: any[] = [];
+        pos++; // {
+        if (text[pos] === "}") {
+            pos++;
+            return result;
+        }
+        while (pos < text.length) {
+            if (text[pos] === "{") {
+                result.push(parse());
+            } else if (text[pos] === "\"") {
+                let s = "";
+                pos++;
+                while (pos < text.length && text[pos] !== "\"") {
+                    if (text[pos] === "\\") {
+                        pos++;
+                    }
+                    s += text[pos++];
+                }
+                pos++;
+                result.push(decode(s));
+            } else {
+                let end = pos;
+                while (end < text.length && text[end] !== "," && text[end] !== "}") {
+                    end++;
+                }
+                const s = text.slice(pos, end);
+                pos = end;
+                result.push((s.toUpperCase() === "NULL") ? null : decode(s));
+            }
+            if (text[pos++] === "}") {
+                break;
+            }
+        }
+        return result;
+    }
+
+    return parse();
+}
+
+/**
+ * Parse the text of a PostgreSQL range, e.g. [1,10) or empty.
+ */
+function parseRange(text: string, decode: TypeDecoder): Range<any> {
+    if (text === "empty") {
+        return {lower: null, upper: null, lowerInclusive: false, upperInclusive: false, empty: true};
+    }
+
+    const bounds: (any | null)[] = [];
+    let pos = 1;
+    for (let i = 0; i < 2; i++) {
+        let s = "";
+        let quoted = false;
+        while (pos < text.length - 1 && (quoted || text[pos] !== ",")) {
+            const c = text[pos++];
+            if (c === "\"") {
+                if (quoted && text[pos] === "\"") {
+                    s += c;
+                    pos++;
+                } else {
+                    quoted = !quoted;
+                }
+            } else if (c === "\\") {
+                s += text[pos++];
+            } else {
+                s += c;
+            }
+        }
+        pos++; // ,
+        bounds.push((s === "") ? null : decode(s));
+    }
+    return {
+        lower: bounds[0],
+        upper: bounds[1],
+        lowerInclusive: text[0] === "[",
+        upperInclusive: text[text.length - 1] === "]",
+        empty: false,
+    };
+}
+
+/**
+ * Returns a decoder for arrays of the element type, that decodes the elements with its current decoder.
+ */
+function arrayDecoder(elementType: PgType): TypeDecoder {
+    return (value: any) => {
+        if (typeof value !== "string") {
+            return value;
+        }
+        const decode = getTypeDecoder(elementType);
+        return parseArray(value, decode !== null ? decode : decodeString);
+    };
+}
+
+/**
+ * Returns a decoder for ranges of the element type, that decodes the bounds with its current decoder.
+ */
+function rangeDecoder(elementType: PgType): TypeDecoder {
+    return (value: any) => {
+        if (typeof value !== "string") {
+            return value;
+        }
+        const decode = getTypeDecoder(elementType);
+        return parseRange(value, decode !== null ? decode : decodeString);
+    };
+}
+
+const defaultDecoders: Map<number, TypeDecoder> = new Map([
+    [PgType.Bool, decodeBool],
+    [PgType.Bytea, decodeBytea],
+    [PgType.Int8, decodeBigInt],
+    [PgType.Int2, decodeNumber],
+    [PgType.Int4, decodeNumber],
+    [PgType.Oid, decodeNumber],
+    [PgType.JSON, decodeJSON],
+    [PgType.Float4, decodeNumber],
+    [PgType.Float8, decodeNumber],
+    [PgType.Date, decodeTimestamp],
+    [PgType.Timestamp, decodeTimestamp],
+    [PgType.TimestampTZ, decodeTimestamp],
+    [PgType.Numeric, decodeString],
+    [PgType.JSONB, decodeJSON],
+
+    [PgType.JSONArray, arrayDecoder(PgType.JSON)],
+    [PgType.BoolArray, arrayDecoder(PgType.Bool)],
+    [PgType.ByteaArray, arrayDecoder(PgType.Bytea)],
+    [PgType.Int2Array, arrayDecoder(PgType.Int2)],
+    [PgType.Int4Array, arrayDecoder(PgType.Int4)],
+    [PgType.TextArray, arrayDecoder(PgType.Text)],
+    [PgType.VarcharArray, arrayDecoder(PgType.Varchar)],
+    [PgType.Int8Array, arrayDecoder(PgType.Int8)],
+    [PgType.Float4Array, arrayDecoder(PgType.Float4)],
+    [PgType.Float8Array, arrayDecoder(PgType.Float8)],
+    [PgType.OidArray, arrayDecoder(PgType.Oid)],
+    [PgType.TimestampArray, arrayDecoder(PgType.Timestamp)],
+    [PgType.DateArray, arrayDecoder(PgType.Date)],
+    [PgType.TimestampTZArray, arrayDecoder(PgType.TimestampTZ)],
+    [PgType.NumericArray, arrayDecoder(PgType.Numeric)],
+    [PgType.UUIDArray, arrayDecoder(PgType.UUID)],
+    [PgType.JSONBArray, arrayDecoder(PgType.JSONB)],
+
+    [PgType.Int4Range, rangeDecoder(PgType.Int4)],
+    [PgType.NumRange, rangeDecoder(PgType.Numeric)],
+    [PgType.TsRange, rangeDecoder(PgType.Timestamp)],
+    [PgType.TstzRange, rangeDecoder(PgType.TimestampTZ)],
+    [PgType.DateRange, rangeDecoder(PgType.Date)],
+    [PgType.Int8Range, rangeDecoder(PgType.Int8)],
+] as [number, TypeDecoder][]);
+
+const decoders: Map<number, TypeDecoder> = new Map();
+
+/**
+ * setTypeDecoder overrides how values of a PostgreSQL type are decoded in query results.
+ * Arrays and ranges of the type use it to decode their elements.
+ *
+ * By default, int8 is decoded to a BigInt, numeric to a decimal string, timestamps and dates to a Date
+ * (a timestamp without time zone is taken as UTC), bytea to a Uint8Array, json and jsonb are parsed,
+ * and arrays and ranges are decoded to an Array and a {@link Range}.
+ *
+ * @example Decode int8 to a number, for counts known to be small
+ * ```
+ * setTypeDecoder(PgType.Int8, Number);
+ * ```
+ *
+ * @remarks Decoders are global, they apply to every client, since a type is always stored the same way.
+ * Results received before the change aren't affected.
+ *
+ * @param type the OID of the type, see {@link PgType} for common ones
+ * @param decoder the decoder to use, or null to restore the default. Pass `value => value` to leave values as received.
+ */
+export function setTypeDecoder(type: number, decoder: TypeDecoder | null) {
+    if (decoder === null) {
+        decoders.delete(type);
+    } else {
+        decoders.set(type, decoder);
+    }
+}
+
+/**
+ * @internal
+ * Returns the decoder for the type, or null if values of the type aren't decoded.
+ */
+export function getTypeDecoder(type: number): TypeDecoder | null {
+    return decoders.get(type) || defaultDecoders.get(type) || null;
+}
+
+/**
+ * @internal
+ * Decode the values of the rows in place, according to the types of their columns.
+ *
+ * @param rows the rows of the result
+ * @param types the type OID of each column, 0 if it's unknown
+ */
+export function decodeRows(rows: any[][], types: number[]) {
+    const columnDecoders = types.map(getTypeDecoder);
+    if (columnDecoders.every(decode => decode === null)) {
+        return;
+    }
+    for (const row of rows) {
+        for (let i = 0; i < columnDecoders.length; i++) {
+            const decode = columnDecoders[i];
+            if (decode !== null && row[i] != null) {
+                row[i] = decode(row[i]);
+            }
+        }
+    }
+}
+
+/**
+ * @internal
+ * A JSON.stringify replacer that encodes BigInt values, e.g. from int8 columns, as decimal strings,
+ * which PostgreSQL accepts for any numeric parameter. JSON.stringify throws on them otherwise.
+ */
+export function bigIntReplacer(key: string, value: any): any {
+    return (typeof value === "bigint") ? value.toString() : value;
+}
@@ -0,0 +1,104 @@
+import {versionMajor, versionMinor} from "./config.js";
+import {Errors, ServerError} from "./errors.js";
+import {isString} from "./util.js";
+
+/**
+ * Optional protocol features a server can support, as advertised in its reply to the HELLO command.
+ */
+export enum Capability {
+    BinaryResults = "binary",
+    Batch = "batch",
+    Subscriptions = "subscriptions",
+    Cancel = "cancel",
+    Auth = "auth",
+    Streaming = "stream",
+    ColumnTypes = "types",
+}
+
+/**
+ * Capabilities describes the protocol spoken with the server the client is connected to,
+ * as negotiated during the HELLO handshake. See {@link SQLJoy.capabilities}.
+ */
+export interface Capabilities {
+    /**
+     * The protocol version of the server.
+     */
+    versionMajor: number;
+    versionMinor: number;
+    /**
+     * Query results are sent with the binary protocol. Requires {@link Settings.binaryResults}.
+     */
+    binaryResults: boolean;
+    /**
+     * The server executes {@link SQLJoy.batch} in one message. Otherwise, the queries are sent separately
+     * and transactional batches aren't supported.
+     */
+    batch: boolean;
+    /**
+     * The server supports {@link SQLJoy.subscribe}.
+     */
+    subscriptions: boolean;
+    /**
+     * The server cancels aborted and timed out requests. Otherwise, they run to completion on the server.
+     */
+    cancel: boolean;
+    /**
+     * The server supports {@link SQLJoy.login}.
+     */
+    auth: boolean;
+    /**
+     * The server streams query results in chunks, see {@link RequestOptions.stream}.
+     * Otherwise, streamed queries receive the whole result at once.
+     */
+    streaming: boolean;
+    /**
+     * Query results include the PostgreSQL type of each column, and values are decoded accordingly,
+     * see {@link ResultRows.types}.
+     */
+    columnTypes: boolean;
+}
+
+/**
+ * @internal
+ * Check that the server supports our protocol version, and return the capabilities we can use.
+ *
+ * The server replies to HELLO with the range of major versions it accepts, its own version, and the
+ * list of {@link Capability} it supports. A server that omits the range only accepts its own major version.
+ *
+ * @throws {@link ServerError} with type {@link Errors.IncompatibleProtocol} if the server doesn't support our version.
+ *
+ * @param reply the result of the HELLO command
+ * @param binaryResults whether we asked for binary results
+ */
+export function negotiate(reply: Record<string, any>, binaryResults: boolean): Capabilities {
+    const serverMajor = (typeof reply.versionMajor === "number") ? reply.versionMajor : versionMajor;
+    const serverMinor = (typeof reply.versionMinor === "number") ? reply.versionMinor : 0;
+    const minMajor = (typeof reply.minVersionMajor === "number") ? reply.minVersionMajor : serverMajor;
+    const maxMajor = (typeof reply.maxVersionMajor === "number") ? reply.maxVersionMajor : serverMajor;
+    if (versionMajor < minMajor || versionMajor > maxMajor) {
+        const range = (minMajor === maxMajor) ? `${minMajor}.x` : `${minMajor}.x to ${maxMajor}.x`;
+        throw new ServerError(`the client speaks protocol ${versionMajor}.${versionMinor}, but the server only supports ${range}`, Errors.IncompatibleProtocol);
+    }
+
+    const supported = Array.isArray(reply.capabilities) ? reply.capabilities.filter(isString) : [];
+    const has = (c: Capability) => supported.indexOf(c) >= 0;
+    return {
+        versionMajor: serverMajor,
+        versionMinor: serverMinor,
+        binaryResults: binaryResults && has(Capability.BinaryResults),
+        batch: has(Capability.Batch),
+        subscriptions: has(Capability.Subscriptions),
+        cancel: has(Capability.Cancel),
+        auth: has(Capability.Auth),
+        streaming: has(Capability.Streaming),
+        columnTypes: has(Capability.ColumnTypes),
+    };
+}
+
+/**
+ * @internal
+ * Returns the error for a feature the server doesn't support.
+ */
+export function unsupported(feature: string): ServerError {
+    return new ServerError(`the server doesn't support ${feature}`, Errors.IncompatibleProtocol);
+}
@@ -1,4 +1,5 @@
-import {Settings, WaitBehavior} from "./config";
+import {Settings, WaitBehavior} from "./config.js";
+import {isBrowser} from "./util.js";
 
 declare class SQLJoy {
     constructor(settings: Partial<Settings>)
@@ -14,6 +15,7 @@ declare class SQLJoy {
  *
  * @remarks This mechanism can be used to update distributed clients on each deploy,
  * reducing the chance that a version mismatch causes unexpected behavior or bugs.
+ * It does nothing outside a browser.
  *
  * @see {@link Settings.versionChangeHandler} for more information.
  *
@@ -21,6 +23,9 @@ declare class SQLJoy {
  * @param server_version
  */
 export function defaultVersionChangeHandler(client_version: string, server_version: string) {
+    if (!isBrowser()) {
+        return;
+    }
     Promise.all(getAllClients().map(c => c.drain())).then(() => {
         // Supposedly this will refresh the page and bypass the cache
         // That shouldn't be necessary, but we can't count on everyone to configure caching correctly.
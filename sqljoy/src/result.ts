@@ -1,10 +1,14 @@
+import {decodeRows} from "./pgtypes.js";
+import type {ValidationDetails} from "./validation.js";
+
 export enum ServerEvent {
     VersionChange = 1,
     DataChange = 2,
+    AuthChange = 3,
 }
 
 export function isJSONResult(obj: any): obj is JSONResult {
-    return typeof obj === "object" && false;
+    return obj !== null && typeof obj === "object" && typeof obj.id === "number";
 }
 
 export function isRowsResult(obj: any): obj is JSONResultRows {
@@ -24,11 +28,53 @@ export interface JSONResultRows {
      * Number of rows selected, inserted, updated, or deleted (if request was a query). Omitted for calls.
      */
     __A_: number;
+    /**
+     * The PostgreSQL type OID of each column, in query order. Omitted if the server doesn't send them.
+     */
+    __P_?: number[];
 }
 
 interface JSONValidationError {
     errors: Record<string, string>;
     nonFieldErrors: string[];
+    /**
+     * All the errors with their codes, so they can be displayed in the client's language. Omitted by older servers.
+     */
+    details?: ValidationDetails;
+}
+
+/**
+ * The details of an error raised by PostgreSQL, named after the fields of its ErrorResponse message.
+ */
+export interface JSONDatabaseError {
+    /**
+     * The SQLSTATE code.
+     */
+    code: string;
+    constraint?: string;
+    table?: string;
+    column?: string;
+    detail?: string;
+    hint?: string;
+}
+
+export interface JSONBatchItem {
+    /**
+     * An optional error if the query failed.
+     */
+    error?: string | JSONValidationError;
+    /**
+     * A predefined error type, if error is set, and if applicable.
+     */
+    errorType?: string;
+    /**
+     * The details of the error, if error is set and it was raised by the database.
+     */
+    dbError?: JSONDatabaseError;
+    /**
+     * A single RowsResult object for the query, if it succeeded.
+     */
+    result?: any;
 }
 
 export interface JSONResult {
@@ -44,11 +90,23 @@ export interface JSONResult {
      * A predefined error type, if error is set, and if applicable.
      */
     errorType?: string;
+    /**
+     * The details of the error, if error is set and it was raised by the database.
+     */
+    dbError?: JSONDatabaseError;
     /**
      * JSON result (for call) containing zero or more nested RowsResult objects
      * or for a query, a single RowsResult object.
      */
     result?: any,
+    /**
+     * For a batch, the result of each query in the batch, in order.
+     */
+    results?: JSONBatchItem[],
+    /**
+     * For a streamed query, true if result is a chunk of the rows and more chunks follow.
+     */
+    more?: boolean,
 }
 
 /**
@@ -75,14 +133,27 @@ export type Row = Record<string, any>;
  * If there are no rows in the result, the iterable is empty. A server function/transaction
  * can return arbitrary JSON including one or more Results.
  *
+ * Each for...of loop (or spread) starts from the first row, so a result can be iterated more than once.
+ * The accessors, like {@link at}, {@link column}, and {@link keyBy}, don't affect iteration.
+ *
+ * @example Look up users by id
+ * ```
+ * const users = (await client.executeQuery(sql`SELECT id, name FROM users`)).keyBy("id");
+ * const name = users.get(userId)?.name;
+ * ```
+ *
  * @remarks PostgreSQL doesn't have a client function to get the last inserted id.
  * It's recommended you use RETURNING id on your INSERT query, and the resulting
- * Result object will contain a single Row of {id: number}.
+ * Result object will contain a single Row of {id: number}, e.g. `result.one().id`.
  */
 export class ResultRows implements IterableIterator<Row> {
     columns: string[];
     rows: any[][];
     affected: number = 0;
+    /**
+     * The PostgreSQL type OID of each column, in query order, or null if they're unknown. See {@link PgType}.
+     */
+    types: number[] | null = null;
     protected index: number = 0;
 
     /**
@@ -91,25 +162,159 @@ export class ResultRows implements IterableIterator<Row> {
      * @param columns an array of column string names
      * @param rows an array of arrays of individual row values
      * @param affected the number of rows selected or affected by the query
+     * @param types the PostgreSQL type OID of each column. If given, the values in rows are decoded in place
+     * as received from the server, see {@link setTypeDecoder}.
      */
-    constructor(columns: string[], rows: any[][], affected: number = 0) {
+    constructor(columns: string[], rows: any[][], affected: number = 0, types: number[] | null = null) {
         if (!Array.isArray(columns) || !Array.isArray(rows)) {
             throw Error("invalid result: expected columns and rows to be arrays");
         }
         this.columns = columns;
         this.rows = rows;
         this.affected = affected;
+        if (types !== null) {
+            if (!Array.isArray(types) || types.length !== columns.length) {
+                throw Error("invalid result: expected a type for each column");
+            }
+            decodeRows(rows, types);
+            this.types = types;
+        }
+    }
+
+    /**
+     * The number of rows in the result.
+     */
+    get length(): number {
+        return this.rows.length;
+    }
+
+    /**
+     * Returns the Row at the index, or null if it's out of range. A negative index counts back from the last row.
+     */
+    at(index: number): Row | null {
+        if (index < 0) {
+            index += this.rows.length;
+        }
+        return (index >= 0 && index < this.rows.length) ? this.rowAt(index) : null;
+    }
+
+    /**
+     * Returns the first Row, or null if the result is empty.
+     */
+    first(): Row | null {
+        return this.at(0);
+    }
+
+    /**
+     * Returns the only Row of the result.
+     *
+     * @throws Error if the result doesn't have exactly one row.
+     */
+    one(): Row {
+        if (this.rows.length !== 1) {
+            throw Error(`expected exactly one row, got ${this.rows.length}`);
+        }
+        return this.rowAt(0);
+    }
+
+    /**
+     * Returns all the rows as an Array of Row objects.
+     */
+    toArray(): Row[] {
+        return this.map(row => row);
+    }
+
+    /**
+     * Returns the values of the named column, one per row.
+     *
+     * @throws Error if the result has no such column.
+     */
+    column(name: string): any[] {
+        const i = this.columnIndex(name);
+        return this.rows.map(data => data[i]);
+    }
+
+    /**
+     * Returns an Array of the results of calling fn for each Row.
+     */
+    map<T>(fn: (row: Row, index: number) => T): T[] {
+        const result: T[] = new Array(this.rows.length);
+        for (let i = 0; i < this.rows.length; i++) {
+            result[i] = fn(this.rowAt(i), i);
+        }
+        return result;
+    }
+
+    /**
+     * Returns a Map of the rows by the value of the named column. If several rows have the same value, the last one wins.
+     *
+     * @remarks Values are compared like Map keys, so Date (and other object) values are compared by identity.
+     *
+     * @throws Error if the result has no such column.
+     */
+    keyBy(name: string): Map<any, Row> {
+        const i = this.columnIndex(name);
+        const result = new Map<any, Row>();
+        for (let j = 0; j < this.rows.length; j++) {
+            result.set(this.rows[j][i], this.rowAt(j));
+        }
+        return result;
+    }
+
+    /**
+     * Returns a Map of the value of the named column to the rows with that value, in result order.
+     *
+     * @remarks Values are compared like Map keys, so Date (and other object) values are compared by identity.
+     *
+     * @throws Error if the result has no such column.
+     */
+    groupBy(name: string): Map<any, Row[]> {
+        const i = this.columnIndex(name);
+        const result = new Map<any, Row[]>();
+        for (let j = 0; j < this.rows.length; j++) {
+            const key = this.rows[j][i];
+            const group = result.get(key);
+            if (group === undefined) {
+                result.set(key, [this.rowAt(j)]);
+            } else {
+                group.push(this.rowAt(j));
+            }
+        }
+        return result;
     }
 
     /**
      * Implements the iterator protocol. Fetch the next Row object.
+     *
+     * @deprecated iterate with for...of instead, which starts a fresh iterator each time.
      */
     next(): IteratorResult<Row> {
         if (this.index >= this.rows.length || this.index < 0) {
             return {"value": null, "done": true};
         }
+        return {"value": this.rowAt(this.index++)};
+    }
+
+    /**
+     * Reset the iterator used by {@link next} to the first row.
+     *
+     * @deprecated iterate with for...of instead, which starts a fresh iterator each time.
+     */
+    reset() {
+        this.index = 0;
+    }
+
+    /**
+     * Returns a new iterator over the rows, starting from the first.
+     */
+    *[Symbol.iterator](): IterableIterator<Row> {
+        for (let i = 0; i < this.rows.length; i++) {
+            yield this.rowAt(i);
+        }
+    }
 
-        const data = this.rows[this.index];
+    protected rowAt(index: number): Row {
+        const data = this.rows[index];
         if (data.length !== this.columns.length) {
             throw Error("invalid result: row length doesn't match columns length");
         }
@@ -117,18 +322,14 @@ export class ResultRows implements IterableIterator<Row> {
         for (let i=0; i < data.length; i++) {
             row[this.columns[i]] = data[i];
         }
-        ++this.index;
-        return {"value": row};
+        return row;
     }
 
-    /**
-     * Reset the iterator to the first row.
-     */
-    reset() {
-        this.index = 0;
-    }
-
-    [Symbol.iterator](): IterableIterator<Row> {
-        return this;
+    protected columnIndex(name: string): number {
+        const i = this.columns.indexOf(name);
+        if (i < 0) {
+            throw Error(`no column ${name} in the result`);
+        }
+        return i;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,278 @@
+import {isString} from "./util.js";
+import {ValidationErrors} from "./validation.js";
+import type {FieldError} from "./validation.js";
+import type {SQL} from "./sql.js";
+
+/**
+ * ParamSchema declares the PostgreSQL type of query params by name, e.g. {id: "int", tags: "text[]", meta: "jsonb"}.
+ * See {@link sql.schema}.
+ *
+ * The supported types are bool, int2, int4 (or int), int8, float4, float8, numeric, text, uuid, date, timestamp,
+ * timestamptz, json, jsonb and bytea, and arrays of them, e.g. int[].
+ */
+export type ParamSchema = Record<string, string>;
+
+type Coerce = (value: any) => any;
+
+// Returned by a Coerce function if the value can't be converted, to distinguish it from valid values like null
+const INVALID = {};
+// Returned if the value has the right type, but is out of range
+const OUT_OF_RANGE = {};
+
+const INT_RE = /^[-+]?\d+$/;
+const NUMERIC_RE = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function coerceBool(value: any): any {
+    if (typeof value === "boolean") {
+        return value;
+    }
+    if (value === 1 || value === 0) {
+        return value === 1;
+    }
+    if (isString(value)) {
+        const s = value.trim().toLowerCase();
+        if (s === "true" || s === "t" || s === "yes" || s === "1") {
+            return true;
+        }
+        if (s === "false" || s === "f" || s === "no" || s === "0") {
+            return false;
+        }
+    }
+    return INVALID;
+}
+
+function intCoercer(bits: number): Coerce {
+    const max = Math.pow(2, bits - 1);
+    return (value: any) => {
+        let n: number;
+        if (typeof value === "number") {
+            n = value;
+        } else if (typeof value === "bigint") {
+            n = Number(value);
+        } else if (isString(value) && INT_RE.test(value.trim())) {
+            n = Number(value.trim());
+        } else {
+            return INVALID;
+        }
+        if (!Number.isInteger(n)) {
+            return INVALID;
+        }
+        return (n < -max || n >= max) ? OUT_OF_RANGE : n;
+    };
+}
+
+function coerceInt8(value: any): any {
+    // Values beyond the range of a number are sent as decimal strings, to keep all the digits
+    let s: string;
+    if (typeof value === "number") {
+        return Number.isSafeInteger(value) ? value : INVALID;
+    } else if (typeof value === "bigint") {
+        s = value.toString();
+    } else if (isString(value) && INT_RE.test(value.trim())) {
+        s = value.trim().replace(/^\+/, "");
+    } else {
+        return INVALID;
+    }
+    const n = Number(s);
+    if (Number.isSafeInteger(n)) {
+        return n;
+    }
+    const digits = s.replace(/^-/, "").replace(/^0+/, "");
+    return (digits.length > 19 || (digits.length === 19 && digits > (s[0] === "-" ? "9223372036854775808" : "9223372036854775807"))) ? OUT_OF_RANGE : s;
+}
+
+function coerceFloat(value: any): any {
+    if (typeof value === "number") {
+        return value;
+    }
+    if (isString(value) && NUMERIC_RE.test(value.trim())) {
+        return Number(value.trim());
+    }
+    return INVALID;
+}
+
+function coerceNumeric(value: any): any {
+    // Kept as a decimal string so no precision is lost
+    if (typeof value === "number") {
+        return isFinite(value) ? String(value) : INVALID;
+    }
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+    if (isString(value) && NUMERIC_RE.test(value.trim())) {
+        return value.trim();
+    }
+    return INVALID;
+}
+
+function coerceText(value: any): any {
+    if (isString(value)) {
+        return value;
+    }
+    return (typeof value === "number" || typeof value === "bigint") ? String(value) : INVALID;
+}
+
+function coerceUUID(value: any): any {
+    return (isString(value) && UUID_RE.test(value)) ? value.toLowerCase() : INVALID;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+    const pad = (n: number, width: number) => String(n).padStart(width, "0");
+    // There's no year 0 in PostgreSQL, year 0 of a Date is 1 BC
+    const text = `${pad(year > 0 ? year : 1 - year, 4)}-${pad(month, 2)}-${pad(day, 2)}`;
+    return (year > 0) ? text : text + " BC";
+}
+
+function timeCoercer(dateOnly: boolean): Coerce {
+    return (value: any) => {
+        if (value instanceof Date) {
+            if (isNaN(value.getTime())) {
+                return INVALID;
+            }
+            if (dateOnly) {
+                // The calendar day in UTC, the same as date columns are decoded (to UTC midnight), see pgtypes.
+                // So a date that was selected is sent back unchanged, in any time zone. Build one with
+                // new Date(Date.UTC(2024, 0, 15)) rather than new Date(2024, 0, 15).
+                return formatDate(value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate());
+            }
+            // Timestamps are sent in UTC, the same as they're decoded, see pgtypes
+            return value.toISOString();
+        }
+        return (isString(value) && !isNaN(Date.parse(value))) ? value : INVALID;
+    };
+}
+
+function coerceJSON(value: any): any {
+    try {
+        return (JSON.stringify(value) === undefined) ? INVALID : value;
+    } catch (e) {
+        // BigInt values or circular references
+        return INVALID;
+    }
+}
+
+function coerceBytea(value: any): any {
+    if (value instanceof Uint8Array) {
+        let hex = "\\x";
+        for (let i = 0; i < value.length; i++) {
+            hex += (value[i] < 16 ? "0" : "") + value[i].toString(16);
+        }
+        return hex;
+    }
+    return (isString(value) && /^\\x([0-9a-f]{2})*$/i.test(value)) ? value : INVALID;
+}
+
+const coercers: Record<string, Coerce> = {
+    bool: coerceBool,
+    boolean: coerceBool,
+    int2: intCoercer(16),
+    smallint: intCoercer(16),
+    int: intCoercer(32),
+    int4: intCoercer(32),
+    integer: intCoercer(32),
+    int8: coerceInt8,
+    bigint: coerceInt8,
+    float4: coerceFloat,
+    real: coerceFloat,
+    float8: coerceFloat,
+    "double precision": coerceFloat,
+    numeric: coerceNumeric,
+    decimal: coerceNumeric,
+    text: coerceText,
+    varchar: coerceText,
+    uuid: coerceUUID,
+    date: timeCoercer(true),
+    timestamp: timeCoercer(false),
+    timestamptz: timeCoercer(false),
+    json: coerceJSON,
+    jsonb: coerceJSON,
+    bytea: coerceBytea,
+};
+
+/**
+ * Convert the value to the type, adding an error and returning INVALID if it can't be.
+ */
+function coerceValue(value: any, type: string, onError: (error: FieldError) => void): any {
+    if (value == null) {
+        return value;
+    }
+    if (type.endsWith("[]")) {
+        const itemType = type.slice(0, -2);
+        if (!Array.isArray(value)) {
+            onError({code: "invalid_type", type});
+            return INVALID;
+        }
+        let failed = false;
+        const result = value.map((item, i) => coerceValue(item, itemType, error => {
+            if (!failed) {
+                failed = true;
+                onError({code: "invalid_item", index: i + 1, error});
+            }
+        }));
+        return failed ? INVALID : result;
+    }
+
+    const coerce = coercers[type];
+    if (coerce === undefined) {
+        throw Error(`unknown param type in schema: ${type}`);
+    }
+    const result = coerce(value);
+    if (result === INVALID) {
+        onError({code: "invalid_type", type});
+    } else if (result === OUT_OF_RANGE) {
+        onError({code: "out_of_range", type});
+        return INVALID;
+    }
+    return result;
+}
+
+/**
+ * @internal
+ * Coerce the params declared in the schema to their types, adding an error for each one that can't be.
+ * Params that can't be coerced are left unchanged. Returns a copy, params isn't modified.
+ *
+ * @param params the params of the query
+ * @param schema the types of the params
+ * @param errors the errors to add to
+ */
+export function coerceParams(params: Record<string, any>, schema: ParamSchema, errors: ValidationErrors): Record<string, any> {
+    const result = Object.assign({}, params);
+    for (let name in schema) {
+        if (schema.hasOwnProperty(name) && result.hasOwnProperty(name)) {
+            const value = coerceValue(result[name], schema[name].trim().toLowerCase(), error => errors.add(name, error));
+            if (value !== INVALID) {
+                result[name] = value;
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * previewParams returns the params of the query as they're sent to the server, after coercing them to
+ * the types declared in the query's schema (see {@link sql.schema}). The validators aren't run, so changes
+ * they would make to the params aren't included.
+ *
+ * @example Show the values that will be saved
+ * ```
+ * const params = previewParams(updateProfile, {age: form.age.value}); // {age: 42} for "42"
+ * ```
+ *
+ * @throws {@link ValidationError} if a param can't be coerced to its type.
+ *
+ * @param query the compiled SQL query
+ * @param params override bound ${expr} parameters or specify deferred %{name} query parameters
+ */
+export function previewParams(query: SQL, params?: Record<string, any>): Record<string, any> {
+    const merged = Object.assign({}, query.params, params);
+    if (!query.schema) {
+        return merged;
+    }
+    const errors = new ValidationErrors();
+    const coerced = coerceParams(merged, query.schema, errors);
+    if (errors.hasErrors()) {
+        throw errors.toError();
+    }
+    return coerced;
+}
@@ -0,0 +1,470 @@
+// Sharing a connection lets all tabs of the same origin (and account) use a single server connection,
+// see Settings.sharedConnection.
+//
+// Every tab competes for a Web Lock named after the account, and the tab holding it runs the hub,
+// which owns the real transport. When that tab closes, the lock passes to another tab, which
+// starts a new hub and tells the others to reconnect. Each client talks to the hub through a
+// SharedTransport over a BroadcastChannel, including the clients in the leader tab itself.
+//
+// Request ids and subscription keys are only unique per client, so the hub assigns its own for the
+// server connection and maps them back when results and DataChange events arrive. Other server
+// initiated events go to every tab. A HELLO is only sent to the server if no tab has sent one with
+// the same session token on this connection, otherwise it's answered with that one's result.
+// The connection has a single session though, so logging in or out in one tab changes it for all of them.
+//
+// The hub tells each tab how many bytes of its frames the server connection has flushed, so that
+// bufferedAmount (and drain) reflect the hub's real buffer.
+
+import {createTransport, Transport, TransportState, TransportType} from "./transport.js";
+import {ServerEvent} from "./result.js";
+import {FrameType} from "./binary.js";
+import {isBrowser, randomId} from "./util.js";
+
+interface ChannelMessage {
+    /**
+     * open: a tab asks to connect, or the hub tells it it's connected.
+     * send: a tab sends a frame to the server.
+     * msg: the hub delivers a frame from the server.
+     * close: a tab disconnects, or the hub closes its connection(s).
+     * leader: a new hub has taken over, tabs connected to the old one must reconnect.
+     * sent: the hub has flushed the first bytes (in total) of the frames the tab sent.
+     */
+    type: "open" | "send" | "msg" | "close" | "leader" | "sent";
+    /**
+     * The id of the SharedTransport the message is from or for. Omitted to address all of them.
+     */
+    tab?: string;
+    data?: string | ArrayBuffer;
+    url?: string;
+    transport?: TransportType;
+    bytes?: number;
+}
+
+interface Route {
+    tab: string;
+    id: number;
+    /**
+     * The session token of a HELLO, "" if it has none, or null if it's not a HELLO.
+     */
+    hello: string | null;
+}
+
+/**
+ * @internal
+ * SharedTransport is a transport connected to the server through the hub in the leader tab.
+ */
+export class SharedTransport implements Transport {
+    onopen: (() => void) | null = null;
+    onmessage: ((data: string | ArrayBuffer) => void) | null = null;
+    onerror: ((e: any) => void) | null = null;
+    onclose: (() => void) | null = null;
+    state: TransportState = TransportState.Connecting;
+    protected id: string = randomId();
+    protected sentBytes: number = 0;
+    protected flushedBytes: number = 0; // as reported by the hub
+    protected channel: BroadcastChannel;
+    protected request: ChannelMessage;
+    protected onPageHide: () => void;
+
+    /**
+     * @param type the transport the hub should use, Auto is not allowed here
+     * @param url the server url
+     * @param name the name of the lock and channel, which identifies the account
+     */
+    constructor(type: TransportType, url: string, name: string) {
+        this.request = {type: "open", tab: this.id, url, transport: type};
+        this.channel = new BroadcastChannel(name);
+        this.channel.onmessage = (e: MessageEvent) => this.receive(e.data);
+        this.onPageHide = () => this.close();
+        addEventListener("pagehide", this.onPageHide);
+        startHub(name);
+        this.channel.postMessage(this.request);
+    }
+
+    /**
+     * True if this is a browser with the APIs required to share a connection.
+     */
+    static supported(): boolean {
+        return isBrowser() && typeof BroadcastChannel !== "undefined" && (navigator as any).locks != null;
+    }
+
+    /**
+     * The bytes sent by this tab that the hub hasn't flushed to the server yet.
+     */
+    get bufferedAmount(): number {
+        return this.sentBytes - this.flushedBytes;
+    }
+
+    send(msg: string) {
+        if (this.state !== TransportState.Open) {
+            throw Error("attempt to send on transport that isn't open");
+        }
+        this.sentBytes += msg.length;
+        this.channel.postMessage({type: "send", tab: this.id, data: msg});
+    }
+
+    close() {
+        if (this.state === TransportState.Closed) {
+            return;
+        }
+        this.state = TransportState.Closed;
+        // Nothing more will be flushed
+        this.flushedBytes = this.sentBytes;
+        this.channel.postMessage({type: "close", tab: this.id});
+        this.channel.close();
+        removeEventListener("pagehide", this.onPageHide);
+        this.onclose && this.onclose();
+    }
+
+    protected receive(msg: ChannelMessage) {
+        if (msg.tab !== undefined && msg.tab !== this.id) {
+            return;
+        }
+        switch (msg.type) {
+            case "open":
+                if (this.state === TransportState.Connecting) {
+                    this.state = TransportState.Open;
+                    this.onopen && this.onopen();
+                }
+                break;
+            case "msg":
+                if (this.state === TransportState.Open) {
+                    this.onmessage && this.onmessage(msg.data!);
+                }
+                break;
+            case "sent":
+                this.flushedBytes = Math.max(this.flushedBytes, msg.bytes!);
+                break;
+            case "close":
+                this.close();
+                break;
+            case "leader":
+                if (this.state === TransportState.Connecting) {
+                    // Our request may have been sent before there was a hub to receive it
+                    this.channel.postMessage(this.request);
+                } else {
+                    this.close();
+                }
+                break;
+        }
+    }
+}
+
+const HUB_LOCKS: Set<string> = new Set();
+
+/**
+ * Request the lock for the hub once per page. If we get it, we run the hub for as long as the page is open.
+ */
+function startHub(name: string) {
+    if (HUB_LOCKS.has(name)) {
+        return;
+    }
+    HUB_LOCKS.add(name);
+    (navigator as any).locks.request(name, () => {
+        new Hub(name);
+        return new Promise(() => {});
+    });
+}
+
+/**
+ * Hub owns the server connection in the leader tab, and relays frames between it and the SharedTransports.
+ */
+class Hub {
+    protected channel: BroadcastChannel;
+    protected transport: Transport | null = null;
+    protected tabs: Set<string> = new Set();
+    protected lastId: number = 0;
+    protected requests: Map<number, Route> = new Map(); // hub request id: route
+    protected requestIds: Map<string, number> = new Map(); // tab:request id: hub request id
+    protected lastSubscription: number = 0;
+    protected subscriptions: Map<number, {tab: string, key: number}> = new Map(); // hub key: tab key
+    protected subscriptionKeys: Map<string, number> = new Map(); // tab:key: hub key
+    /**
+     * The result of the last HELLO on the current connection, by its session token ("" for none).
+     * It has at most one entry: the connection has one session, and a HELLO with another token or
+     * a login or logout changes it.
+     */
+    protected hello: Map<string, Record<string, any>> = new Map();
+    /**
+     * The tabs waiting for the result of a HELLO that was sent with the same session token, by token.
+     */
+    protected helloWaiters: Map<string, {tab: string, id: number}[]> = new Map();
+    protected received: Map<string, number> = new Map(); // tab: bytes received from it
+    protected flushed: Map<string, number> = new Map(); // tab: bytes reported flushed to it
+    protected flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(name: string) {
+        this.channel = new BroadcastChannel(name);
+        this.channel.onmessage = (e: MessageEvent) => this.receive(e.data);
+        addEventListener("pagehide", () => this.post({type: "close"}));
+        this.post({type: "leader"});
+    }
+
+    protected receive(msg: ChannelMessage) {
+        switch (msg.type) {
+            case "open":
+                this.tabs.add(msg.tab!);
+                if (this.transport === null) {
+                    this.connect(msg.transport!, msg.url!);
+                } else if (this.transport.state === TransportState.Open) {
+                    this.post({type: "open", tab: msg.tab});
+                }
+                break;
+            case "send":
+                if (this.tabs.has(msg.tab!)) {
+                    const data = msg.data as string;
+                    this.received.set(msg.tab!, (this.received.get(msg.tab!) || 0) + data.length);
+                    this.route(msg.tab!, data);
+                    this.reportFlushed();
+                }
+                break;
+            case "close":
+                this.drop(msg.tab!);
+                break;
+        }
+    }
+
+    protected connect(type: TransportType, url: string) {
+        const transport = createTransport(type, url);
+        transport.onopen = () => this.tabs.forEach(tab => this.post({type: "open", tab}));
+        transport.onmessage = data => this.deliver(data);
+        transport.onerror = e => console.warn("error from shared transport", e);
+        transport.onclose = () => {
+            if (transport === this.transport) {
+                this.reset();
+                this.post({type: "close"});
+            }
+        };
+        this.transport = transport;
+    }
+
+    /**
+     * Send a frame from a tab to the server, with the ids replaced by our own.
+     */
+    protected route(tab: string, frame: string) {
+        const cmd = frame[0];
+        const semi = frame.indexOf(";");
+        const id = parseInt(frame.slice(1, semi), 10);
+        let rest = frame.slice(semi);
+
+        if (cmd === "X" || cmd === "M") {
+            // Cancel or ask for more rows of a request we already sent
+            const hubId = this.requestIds.get(`${tab}:${id}`);
+            if (hubId !== undefined) {
+                if (cmd === "X") {
+                    this.forget(hubId);
+                }
+                this.send(`${cmd}${hubId}${rest}`);
+            }
+            return;
+        }
+        let token: string | null = null;
+        if (cmd === "H") {
+            token = this.helloToken(rest);
+            const hello = this.hello.get(token);
+            if (hello !== undefined) {
+                this.post({type: "msg", tab, data: JSON.stringify(Object.assign({}, hello, {id}))});
+                return;
+            }
+            const waiters = this.helloWaiters.get(token);
+            if (waiters !== undefined) {
+                waiters.push({tab, id});
+                return;
+            }
+            this.helloWaiters.set(token, []);
+            this.hello.clear();
+        } else if (cmd === "A") {
+            this.hello.clear();
+        }
+        if (cmd === "S" || cmd === "U") {
+            rest = this.mapSubscription(tab, cmd, rest);
+        }
+
+        const hubId = ++this.lastId;
+        this.requests.set(hubId, {tab, id, hello: token});
+        this.requestIds.set(`${tab}:${id}`, hubId);
+        this.send(`${cmd}${hubId}${rest}`);
+    }
+
+    /**
+     * Returns the session token in the arguments of a HELLO frame, or "" if it has none.
+     * The frame is ";target;args" optionally followed by a newline and the metadata.
+     */
+    protected helloToken(rest: string): string {
+        const start = rest.indexOf(";", 1) + 1;
+        const newline = rest.indexOf("\n", start);
+        const args = JSON.parse(rest.slice(start, (newline < 0) ? rest.length : newline));
+        return (args !== null && typeof args.token === "string") ? args.token : "";
+    }
+
+    /**
+     * Replace the subscription key in the arguments of a subscribe or unsubscribe frame.
+     * The frame is ";target;args" optionally followed by a newline and the metadata.
+     */
+    protected mapSubscription(tab: string, cmd: string, rest: string): string {
+        const start = rest.indexOf(";", 1) + 1;
+        const newline = rest.indexOf("\n", start);
+        const end = (newline < 0) ? rest.length : newline;
+        const args = JSON.parse(rest.slice(start, end));
+        const tabKey = `${tab}:${args.sub}`;
+
+        if (cmd === "S") {
+            const key = ++this.lastSubscription;
+            this.subscriptions.set(key, {tab, key: args.sub});
+            this.subscriptionKeys.set(tabKey, key);
+            args.sub = key;
+        } else {
+            const key = this.subscriptionKeys.get(tabKey) || 0;
+            this.subscriptionKeys.delete(tabKey);
+            this.subscriptions.delete(key);
+            args.sub = key;
+        }
+        return rest.slice(0, start) + JSON.stringify(args) + rest.slice(end);
+    }
+
+    /**
+     * Deliver a frame from the server to the tab that sent the request, or to every tab for server initiated events.
+     */
+    protected deliver(data: string | ArrayBuffer) {
+        if (typeof data !== "string") {
+            // Only results are sent as binary, the request id is at offset 1
+            const view = new DataView(data);
+            const id = view.getUint32(1, true);
+            const route = this.requests.get(id);
+            if (route !== undefined) {
+                // More chunks of a streamed result follow
+                if (view.getUint8(0) !== FrameType.StreamRows) {
+                    this.forget(id);
+                }
+                const copy = data.slice(0);
+                new DataView(copy).setUint32(1, route.id, true);
+                this.post({type: "msg", tab: route.tab, data: copy});
+            }
+            return;
+        }
+
+        const msg = JSON.parse(data);
+        const route = this.requests.get(msg.id);
+        if (route === undefined) {
+            const event = msg.result;
+            if (event == null || event.eventType == null) {
+                // The result of a request that was cancelled
+                return;
+            }
+            if (event.eventType === ServerEvent.DataChange && event.sub != null) {
+                const sub = this.subscriptions.get(event.sub);
+                if (sub !== undefined) {
+                    event.sub = sub.key;
+                    this.post({type: "msg", tab: sub.tab, data: JSON.stringify(msg)});
+                }
+                return;
+            }
+            this.post({type: "msg", data});
+            return;
+        }
+
+        if (!msg.more) {
+            this.forget(msg.id);
+        }
+        const waiters = [{tab: route.tab, id: route.id}];
+        if (route.hello !== null) {
+            if (!msg.error) {
+                this.hello.clear();
+                this.hello.set(route.hello, msg);
+            }
+            waiters.push(...(this.helloWaiters.get(route.hello) || []));
+            this.helloWaiters.delete(route.hello);
+        }
+        for (const waiter of waiters) {
+            msg.id = waiter.id;
+            this.post({type: "msg", tab: waiter.tab, data: JSON.stringify(msg)});
+        }
+    }
+
+    /**
+     * Forget a disconnected tab, cancelling its requests and subscriptions. The connection is closed
+     * once no tab is using it.
+     */
+    protected drop(tab: string) {
+        if (!this.tabs.delete(tab)) {
+            return;
+        }
+        this.requests.forEach((route, hubId) => {
+            if (route.tab === tab) {
+                this.forget(hubId);
+                this.send(`X${hubId};;null`);
+            }
+        });
+        this.subscriptions.forEach((sub, key) => {
+            if (sub.tab === tab) {
+                this.subscriptions.delete(key);
+                this.subscriptionKeys.delete(`${tab}:${sub.key}`);
+                // There's no one waiting for the result
+                this.send(`U${++this.lastId};;${JSON.stringify({sub: key})}`);
+            }
+        });
+        this.helloWaiters.forEach((waiters, token) => {
+            this.helloWaiters.set(token, waiters.filter(w => w.tab !== tab));
+        });
+        this.received.delete(tab);
+        this.flushed.delete(tab);
+
+        if (this.tabs.size === 0 && this.transport !== null) {
+            const transport = this.transport;
+            this.reset();
+            transport.close();
+        }
+    }
+
+    protected forget(hubId: number) {
+        const route = this.requests.get(hubId);
+        if (route !== undefined) {
+            this.requests.delete(hubId);
+            this.requestIds.delete(`${route.tab}:${route.id}`);
+        }
+    }
+
+    protected reset() {
+        this.transport = null;
+        this.requests.clear();
+        this.requestIds.clear();
+        this.subscriptions.clear();
+        this.subscriptionKeys.clear();
+        this.hello.clear();
+        this.helloWaiters.clear();
+        // Frames that weren't flushed are lost with the connection
+        this.reportFlushed();
+    }
+
+    /**
+     * Tell each tab how many bytes of its frames have been flushed to the server, once the connection's
+     * buffer is empty. Check again shortly while it isn't.
+     */
+    protected reportFlushed() {
+        if (this.transport !== null && this.transport.bufferedAmount !== 0) {
+            if (this.flushTimer === null) {
+                this.flushTimer = setTimeout(() => {
+                    this.flushTimer = null;
+                    this.reportFlushed();
+                }, 10);
+            }
+            return;
+        }
+        this.received.forEach((bytes, tab) => {
+            if (this.flushed.get(tab) !== bytes) {
+                this.flushed.set(tab, bytes);
+                this.post({type: "sent", tab, bytes});
+            }
+        });
+    }
+
+    protected send(frame: string) {
+        if (this.transport !== null && this.transport.state === TransportState.Open) {
+            this.transport.send(frame);
+        }
+    }
+
+    protected post(msg: ChannelMessage) {
+        this.channel.postMessage(msg);
+    }
+}
@@ -1,10 +1,12 @@
 import {isString} from "./util.js";
-import {validate, ValidationError, Validator} from "./validation";
+import {validate, ValidationError, Validator} from "./validation.js";
+import {ParamSchema} from "./schema.js";
 
 interface SQLFunc {
     (strings: string[] | string, ...exprs: any[]): SQL;
     (noescape: string): SQL;
     merge: (query: SQL, ...fragments: SQL[]) => SQL;
+    schema: (query: SQL, schema: ParamSchema) => SQL;
 }
 
 declare global {
@@ -55,6 +57,10 @@ export interface SQL {
      * able to determine all the possible fragments that can be substituted.
      */
     fragments?: SQL[];
+    /**
+     * The declared types of the params, see {@link sql.schema}.
+     */
+    schema?: ParamSchema;
 }
 
 /**
@@ -109,17 +115,44 @@ export function sql(strings: string[], ...exprs: any[]): SQL {
  *
  * @category Advanced
  */
-(sql as any).merge = function(query: SQL, ...fragments: SQL[]): SQL {
+export function merge(query: SQL, ...fragments: SQL[]): SQL {
     // Make a shallow copy of the query so we don't modify the original
     query = { ...query };
     query.fragments = query.fragments ? query.fragments.slice() : [];
     for (const fragment of fragments) {
         query.fragments.push(fragment);
         query.params = mergeParams(query.params, fragment.params);
+        if (fragment.schema) {
+            query.schema = Object.assign({}, query.schema, fragment.schema);
+        }
     }
     return query;
 }
 
+/**
+ * schema declares the PostgreSQL types of the params of a query. Params are coerced to their type before
+ * the validators run, in the same way on the client and the server, e.g. "42" to 42 for an int param.
+ * A param that can't be coerced fails validation with the code "invalid_type" or "out_of_range".
+ *
+ * Like {@link merge}, the compiler must be able to determine the schema statically, so pass an object literal.
+ *
+ * @example Declare the types of the params of an insert
+ * ```
+ * const insertPost = sql.schema(sql`INSERT INTO posts (author, tags, meta) VALUES (%{author}, %{tags}, %{meta})`,
+ *                               {author: "int", tags: "text[]", meta: "jsonb"});
+ * ```
+ *
+ * @param query the query to declare the param types of
+ * @param types the type of each param, see {@link ParamSchema}
+ * @returns a copy of the query with the schema
+ */
+export function schema(query: SQL, types: ParamSchema): SQL {
+    return {...query, schema: Object.assign({}, query.schema, types)};
+}
+
+sql.merge = merge;
+sql.schema = schema;
+
 export function mergeParams(params: Record<string, any>, other: Record<string, any>): Record<string, any> {
     let dest: Record<string, any> | null = null;
     for (let key in other) {
@@ -153,19 +186,15 @@ interface QueryParams {
     fragments: string[];
 }
 
-export async function prepareQuery(query: SQL, addParams: Record<string, any> | undefined, validators: Validator[], isServer: boolean): Promise<QueryParams> {
+export async function prepareQuery(query: SQL, addParams: Record<string, any> | undefined, validators: Validator[]): Promise<QueryParams> {
     if (query.query === "invalid") {
         throw Error(`attempt to execute uncompiled query, refer to the compiler warning for more info: ${query.text || query.query}`);
     }
 
-    // Let it throw the ValidationError
-    let params = await validate(query, addParams, validators);
-
-    if (!isServer) {
-        // This is the client-side validation. The server will run the validation again.
-        // So send the server the unmodified original parameters.
-        params = params ? Object.assign({}, query.params, addParams) : query.params;
-    }
+    // Let it throw the ValidationError.
+    // On the client, the server is sent the params as validated, coerced to their declared types and with
+    // any changes made by the validators. The server validates them again, and coercing them again is a no-op.
+    const params = await validate(query, addParams, validators);
 
     const fragments: string[] = [];
     for (let fragment of query.fragments || fragments as any) {
@@ -0,0 +1,211 @@
+import {ResultRows, Row} from "./result.js";
+
+/**
+ * RowStream delivers the rows of a query incrementally as the server sends them, see {@link RequestOptions.stream}.
+ *
+ * It's an async iterable of {@link Row} objects, and can be converted to a ReadableStream with {@link toReadableStream}.
+ * It can only be iterated once.
+ *
+ * The server sends rows in chunks, and only as many as the client has room for. The client asks for more as the
+ * rows are consumed, so memory use stays bounded by {@link Settings.streamWindowRows}, no matter the size of the result.
+ *
+ * @example Export a large table
+ * ```
+ * const rows = await client.executeQuery(query, {}, new RequestOptions({stream: true})) as RowStream;
+ * for await (const row of rows) {
+ *     writer.write(toCSV(row));
+ * }
+ * ```
+ */
+export class RowStream implements AsyncIterableIterator<Row> {
+    /**
+     * The names of the columns, once the first chunk has been received.
+     */
+    columns: string[] = [];
+    /**
+     * The number of rows received so far, or once the stream is done, the number of rows selected or affected by the query.
+     */
+    affected: number = 0;
+    /**
+     * @internal
+     * Called with the number of rows consumed, to tell the server to send that many more.
+     */
+    onCredit: ((rows: number) => void) | null = null;
+    /**
+     * @internal
+     * Called to tell the server to stop sending rows.
+     */
+    onCancel: (() => void) | null = null;
+    /**
+     * @internal
+     * Called when the first chunk is received.
+     */
+    onStart: (() => void) | null = null;
+    protected chunks: any[][][] = []; // buffered chunks of rows, the first is partially consumed
+    protected offset: number = 0; // the index of the next row in the first chunk
+    protected consumed: number = 0; // rows consumed since the last credit
+    protected window: number;
+    protected done: boolean = false;
+    protected error: Error | null = null;
+    protected waiter: (() => void) | null = null; // the pending read, if it's waiting for rows
+    protected reading: Promise<any> = Promise.resolve(); // settles when the last call to next has
+
+    /**
+     * @internal
+     *
+     * @param window the number of rows the server may send before waiting for more credit, or 0 for no limit
+     */
+    constructor(window: number) {
+        this.window = window;
+    }
+
+    /**
+     * @internal
+     * Create a stream over a result that was received all at once, for servers that don't support streaming.
+     */
+    static fromResult(result: ResultRows | null): RowStream {
+        const stream = new RowStream(0);
+        if (result !== null) {
+            stream.push(result, false);
+        } else {
+            stream.done = true;
+        }
+        return stream;
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<Row> {
+        return this;
+    }
+
+    next(): Promise<IteratorResult<Row>> {
+        // Concurrent calls are allowed, each one reads after the previous one, so there's only one waiter
+        const result = this.reading.then(() => this.read());
+        this.reading = result.catch(() => {});
+        return result;
+    }
+
+    protected async read(): Promise<IteratorResult<Row>> {
+        while (this.chunks.length === 0) {
+            if (this.error !== null) {
+                throw this.error;
+            }
+            if (this.done) {
+                return {value: undefined, done: true};
+            }
+            await new Promise<void>(resolve => this.waiter = resolve);
+        }
+
+        const chunk = this.chunks[0];
+        const data = chunk[this.offset++];
+        if (this.offset >= chunk.length) {
+            // Release the chunk as soon as it's consumed
+            this.chunks.shift();
+            this.offset = 0;
+        }
+        this.credit(1);
+
+        const row: Row = {};
+        for (let i = 0; i < data.length; i++) {
+            row[this.columns[i]] = data[i];
+        }
+        return {value: row, done: false};
+    }
+
+    /**
+     * Stop iterating, e.g. when breaking out of a for await loop. Same as {@link cancel}.
+     */
+    async return(): Promise<IteratorResult<Row>> {
+        this.cancel();
+        return {value: undefined, done: true};
+    }
+
+    /**
+     * Stop the stream, discarding any buffered rows. If the query is still running, the server is told to stop it.
+     */
+    cancel() {
+        this.chunks = [];
+        if (this.done) {
+            return;
+        }
+        this.done = true;
+        this.onCancel && this.onCancel();
+        this.wake();
+    }
+
+    /**
+     * Returns a ReadableStream of the rows. Rows are only pulled from this stream as the ReadableStream
+     * is read, and cancelling it cancels this stream.
+     */
+    toReadableStream(): ReadableStream<Row> {
+        return new ReadableStream<Row>({
+            pull: async controller => {
+                const {value, done} = await this.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            },
+            cancel: () => this.cancel(),
+        }, {highWaterMark: 0});
+    }
+
+    /**
+     * @internal
+     * Add a chunk of rows received from the server.
+     *
+     * @param rows the rows in the chunk
+     * @param more true if more chunks follow
+     */
+    push(rows: ResultRows, more: boolean) {
+        if (this.done) {
+            return;
+        }
+        this.columns = rows.columns;
+        if (rows.rows.length !== 0) {
+            this.chunks.push(rows.rows);
+        }
+        this.affected = more ? this.affected + rows.rows.length : rows.affected;
+        if (!more) {
+            this.done = true;
+        }
+        this.onStart && this.onStart();
+        this.onStart = null;
+        this.wake();
+    }
+
+    /**
+     * @internal
+     * End the stream with an error, which is thrown once the buffered rows have been consumed.
+     */
+    fail(error: Error) {
+        if (this.done) {
+            return;
+        }
+        this.done = true;
+        this.error = error;
+        this.wake();
+    }
+
+    /**
+     * Tell the server it can send more rows once half the window has been consumed.
+     */
+    protected credit(rows: number) {
+        if (this.window === 0 || this.done) {
+            return;
+        }
+        this.consumed += rows;
+        if (this.consumed >= this.window / 2) {
+            this.onCredit && this.onCredit(this.consumed);
+            this.consumed = 0;
+        }
+    }
+
+    protected wake() {
+        if (this.waiter !== null) {
+            const waiter = this.waiter;
+            this.waiter = null;
+            waiter();
+        }
+    }
+}
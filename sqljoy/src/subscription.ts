@@ -0,0 +1,156 @@
+import {ResultRows} from "./result.js";
+import {bigIntReplacer, decodeRows} from "./pgtypes.js";
+
+/**
+ * RowsDiff describes the changes to the result of a subscribed query.
+ *
+ * The server sends a diff instead of the full result when it's smaller.
+ */
+export interface RowsDiff {
+    /**
+     * The names of the columns that together uniquely identify a row.
+     */
+    key: string[];
+    /**
+     * Rows that were inserted or updated. Updated rows replace the row with the same key,
+     * inserted rows are appended to the result.
+     */
+    upserted: ResultRows;
+    /**
+     * The key values (in the order of the key columns) of the rows that were deleted.
+     */
+    deleted: any[][];
+}
+
+/**
+ * OnDataChange is the type of the callback passed to {@link SQLJoy.subscribe}. It's invoked with the
+ * initial result of the query, and again with the new result every time it changes.
+ *
+ * @param rows the current result of the query
+ * @param diff the changes since the last invocation if the server sent a diff, otherwise null
+ */
+export type OnDataChange = (rows: ResultRows, diff: RowsDiff | null) => void;
+
+/**
+ * Subscription is the handle returned by {@link SQLJoy.subscribe} for a live query.
+ */
+export class Subscription {
+    /**
+     * A promise resolving to the initial result of the query, or rejecting if the query
+     * fails validation or the server refuses the subscription. It resolves to null if
+     * {@link unsubscribe} is called before the subscription is sent to the server.
+     */
+    ready!: Promise<ResultRows | null>;
+    /**
+     * The most recent result of the query, or null before the initial result is received.
+     */
+    rows: ResultRows | null = null;
+    /**
+     * True once {@link unsubscribe} has been called.
+     */
+    closed: boolean = false;
+    /**
+     * @internal
+     * The client assigned id identifying this subscription in DataChange events.
+     */
+    readonly key: number;
+    /**
+     * @internal
+     * The query hash and prepared query params, set once validation passes.
+     */
+    target: string = "";
+    args: Record<string, any> | null = null;
+    /**
+     * @internal
+     * True while a subscribe command is waiting for a response.
+     */
+    inFlight: boolean = false;
+    protected callback: OnDataChange;
+    protected onUnsubscribe: (sub: Subscription) => void;
+
+    /**
+     * @internal
+     */
+    constructor(key: number, callback: OnDataChange, onUnsubscribe: (sub: Subscription) => void) {
+        this.key = key;
+        this.callback = callback;
+        this.onUnsubscribe = onUnsubscribe;
+    }
+
+    /**
+     * Stop receiving updates for the query.
+     */
+    unsubscribe() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.onUnsubscribe(this);
+    }
+
+    /**
+     * @internal
+     * Replace the result, or apply the diff to it, and invoke the callback.
+     */
+    update(rows: ResultRows | null, diff: RowsDiff | null) {
+        if (this.closed) {
+            return;
+        }
+        if (rows === null) {
+            if (diff === null || this.rows === null) {
+                // We can't apply a diff before we have the initial result
+                return;
+            }
+            rows = applyDiff(this.rows, diff);
+        }
+        this.rows = rows;
+        const result = new ResultRows(rows.columns, rows.rows, rows.affected);
+        result.types = rows.types;
+        this.callback(result, diff);
+    }
+}
+
+/**
+ * Returns a new ResultRows with the changes in diff applied to rows.
+ *
+ * @param rows the current result
+ * @param diff the changes to apply
+ */
+export function applyDiff(rows: ResultRows, diff: RowsDiff): ResultRows {
+    const keyIndexes = diff.key.map(name => {
+        const i = rows.columns.indexOf(name);
+        if (i < 0) {
+            throw Error(`invalid diff: key column ${name} is not in the result`);
+        }
+        return i;
+    });
+    const keyOf = (row: any[], indexes: number[]) => JSON.stringify(indexes.map(i => row[i]), bigIntReplacer);
+
+    // The rows were decoded, so the deleted keys have to be too for them to compare equal
+    if (rows.types !== null) {
+        const types = rows.types;
+        decodeRows(diff.deleted, keyIndexes.map(i => types[i]));
+    }
+    const deleted = new Set(diff.deleted.map(key => JSON.stringify(key, bigIntReplacer)));
+    const result = rows.rows.filter(row => !deleted.has(keyOf(row, keyIndexes)));
+    const positions = new Map<string, number>();
+    result.forEach((row, i) => positions.set(keyOf(row, keyIndexes), i));
+
+    // The upserted rows may have their columns in a different order
+    const columnIndexes = rows.columns.map(name => diff.upserted.columns.indexOf(name));
+    const upsertedKeyIndexes = diff.key.map(name => diff.upserted.columns.indexOf(name));
+    for (const data of diff.upserted.rows) {
+        const row = columnIndexes.map(i => (i < 0) ? null : data[i]);
+        const key = keyOf(data, upsertedKeyIndexes);
+        const i = positions.get(key);
+        if (i === undefined) {
+            positions.set(key, result.length);
+            result.push(row);
+        } else {
+            result[i] = row;
+        }
+    }
+    const updated = new ResultRows(rows.columns, result, result.length);
+    updated.types = rows.types;
+    return updated;
+}
@@ -0,0 +1,250 @@
+/**
+ * Selects the transport used to communicate with the server.
+ *
+ * @see {@link Settings.transport}
+ */
+export enum TransportType {
+    /**
+     * Use WebSockets, falling back to HTTP if a WebSocket connection can't be established.
+     */
+    Auto = "auto",
+    /**
+     * Always use WebSockets.
+     */
+    WebSocket = "websocket",
+    /**
+     * Always use HTTP. Requests are sent with POST, and server initiated events are received
+     * with server-sent events if supported, or long-polling otherwise.
+     */
+    HTTP = "http",
+}
+
+/**
+ * The constructor of a WebSocket implementation, see {@link Settings.webSocket}.
+ */
+export type WebSocketConstructor = new (url: string) => WebSocket;
+
+export enum TransportState {
+    Connecting,
+    Open,
+    Closed,
+}
+
+/**
+ * @internal
+ * Transport is a connection to the server over which text frames are sent and
+ * text or binary frames are received. It mirrors the relevant subset of the WebSocket API.
+ */
+export interface Transport {
+    readonly state: TransportState;
+    /**
+     * The number of bytes sent that haven't been transmitted to the server yet.
+     */
+    readonly bufferedAmount: number;
+    onopen: (() => void) | null;
+    onmessage: ((data: string | ArrayBuffer) => void) | null;
+    onerror: ((e: any) => void) | null;
+    onclose: (() => void) | null;
+
+    send(msg: string): void;
+    close(): void;
+}
+
+/**
+ * @internal
+ * Create a transport of the given type connected to url, which should use the wss:// scheme.
+ *
+ * @param type the transport to use, Auto is not allowed here
+ * @param url the server url
+ * @param webSocket the WebSocket implementation to use, or null for the global WebSocket
+ */
+export function createTransport(type: TransportType, url: string, webSocket: WebSocketConstructor | null = null): Transport {
+    switch (type) {
+        case TransportType.WebSocket:
+            if (webSocket === null) {
+                if (typeof WebSocket === "undefined") {
+                    throw Error("WebSocket is not available, pass an implementation in Settings.webSocket");
+                }
+                webSocket = WebSocket;
+            }
+            return new WebSocketTransport(url, webSocket);
+        case TransportType.HTTP:
+            return new HTTPTransport(url.replace(/^ws/, "http"));
+        default:
+            throw Error(`invalid transport: ${type}`);
+    }
+}
+
+class WebSocketTransport implements Transport {
+    onopen: (() => void) | null = null;
+    onmessage: ((data: string | ArrayBuffer) => void) | null = null;
+    onerror: ((e: any) => void) | null = null;
+    onclose: (() => void) | null = null;
+    protected sock: WebSocket;
+
+    constructor(url: string, webSocket: WebSocketConstructor) {
+        this.sock = new webSocket(url);
+        this.sock.binaryType = "arraybuffer";
+        this.sock.onopen = () => this.onopen && this.onopen();
+        this.sock.onmessage = (e: MessageEvent) => this.onmessage && this.onmessage(e.data);
+        this.sock.onerror = (e: Event) => this.onerror && this.onerror(e);
+        this.sock.onclose = () => this.onclose && this.onclose();
+    }
+
+    get state(): TransportState {
+        switch (this.sock.readyState) {
+            case this.sock.CONNECTING:
+                return TransportState.Connecting;
+            case this.sock.OPEN:
+                return TransportState.Open;
+            default:
+                return TransportState.Closed;
+        }
+    }
+
+    get bufferedAmount(): number {
+        return this.sock.bufferedAmount;
+    }
+
+    send(msg: string) {
+        this.sock.send(msg);
+    }
+
+    close() {
+        this.sock.close();
+    }
+}
+
+// The header the server uses to identify the logical connection across HTTP requests.
+// It's returned on every response, and must be sent back on subsequent requests.
+const CONNECTION_HEADER = "SQLJoy-Connection";
+
+/**
+ * HTTPTransport emulates a connection over plain HTTP.
+ *
+ * Each frame is sent as the body of a POST to /rpc, and the response body is the result frame.
+ * Server initiated events are received from /events with server-sent events if EventSource is
+ * available, otherwise by long-polling /poll. The server ties the requests together with a
+ * connection id it returns in the SQLJoy-Connection header.
+ */
+class HTTPTransport implements Transport {
+    onopen: (() => void) | null = null;
+    onmessage: ((data: string | ArrayBuffer) => void) | null = null;
+    onerror: ((e: any) => void) | null = null;
+    onclose: (() => void) | null = null;
+    state: TransportState = TransportState.Connecting;
+    bufferedAmount: number = 0;
+    protected url: string;
+    protected connectionId: string = "";
+    protected events: EventSource | null = null;
+    protected polling: boolean = false;
+    protected abort: AbortController;
+
+    constructor(url: string) {
+        this.url = url;
+        this.abort = new AbortController();
+        // There's no connection to establish, it's open as soon as the caller has had a chance to set onopen.
+        setTimeout(() => {
+            if (this.state === TransportState.Connecting) {
+                this.state = TransportState.Open;
+                this.onopen && this.onopen();
+            }
+        }, 0);
+    }
+
+    send(msg: string) {
+        if (this.state !== TransportState.Open) {
+            throw Error("attempt to send on transport that isn't open");
+        }
+
+        this.bufferedAmount += msg.length;
+        this.request("/rpc", {method: "POST", body: msg, headers: {"Content-Type": "text/plain"}})
+            .then(res => {
+                this.bufferedAmount -= msg.length;
+                return this.receive(res);
+            })
+            .then(() => this.listen())
+            .catch(e => this.fail(e));
+    }
+
+    close() {
+        if (this.state === TransportState.Closed) {
+            return;
+        }
+        this.state = TransportState.Closed;
+        this.abort.abort();
+        if (this.events !== null) {
+            this.events.close();
+            this.events = null;
+        }
+        this.onclose && this.onclose();
+    }
+
+    protected async request(path: string, init: RequestInit): Promise<Response> {
+        const headers = new Headers(init.headers);
+        if (this.connectionId) {
+            headers.set(CONNECTION_HEADER, this.connectionId);
+        }
+        const res = await fetch(this.url + path, {...init, headers, signal: this.abort.signal});
+        if (!res.ok) {
+            throw Error(`${res.status} ${res.statusText}`);
+        }
+        this.connectionId = res.headers.get(CONNECTION_HEADER) || this.connectionId;
+        return res;
+    }
+
+    protected async receive(res: Response) {
+        if (res.status === 204 || this.state !== TransportState.Open) {
+            return;
+        }
+        const isBinary = (res.headers.get("Content-Type") || "").indexOf("application/octet-stream") >= 0;
+        const data = isBinary ? await res.arrayBuffer() : await res.text();
+        if (data && this.state === TransportState.Open) {
+            this.onmessage && this.onmessage(data);
+        }
+    }
+
+    /**
+     * Start listening for server initiated events, once we've been assigned a connection id.
+     */
+    protected listen() {
+        if (this.events !== null || this.polling || !this.connectionId || this.state !== TransportState.Open) {
+            return;
+        }
+
+        if (typeof EventSource !== "undefined") {
+            const events = new EventSource(`${this.url}/events?connection=${encodeURIComponent(this.connectionId)}`);
+            events.onmessage = (e: MessageEvent) => this.onmessage && this.onmessage(e.data);
+            events.onerror = (e: Event) => {
+                // EventSource reconnects on its own unless the server refused the connection
+                if (events.readyState === events.CLOSED) {
+                    this.fail(e);
+                }
+            };
+            this.events = events;
+        } else {
+            this.polling = true;
+            this.poll();
+        }
+    }
+
+    protected poll() {
+        // The server holds the request open until there's an event, or it times out with a 204.
+        this.request("/poll", {method: "GET"})
+            .then(res => this.receive(res))
+            .then(() => {
+                if (this.state === TransportState.Open) {
+                    this.poll();
+                }
+            })
+            .catch(e => this.fail(e));
+    }
+
+    protected fail(e: any) {
+        if (this.state === TransportState.Closed) {
+            return;
+        }
+        this.onerror && this.onerror(e);
+        this.close();
+    }
+}
@@ -12,7 +12,8 @@
 //
 // We update the beforeunload handler after every sent and received message.
 
-import {getAllClients} from "./registry";
+import {getAllClients} from "./registry.js";
+import {isBrowser} from "./util.js";
 
 function onUnload(ev: Event): string | undefined {
     const pending = getAllClients().some(c => c.hasPending());
@@ -30,6 +31,10 @@ function onUnload(ev: Event): string | undefined {
 }
 
 export function updateUnloadHandler() {
+    if (!isBrowser()) {
+        // There's no page to leave
+        return;
+    }
     const pending = getAllClients().some(c => c.hasPending());
     if (pending) {
         setUnload();
@@ -41,6 +41,13 @@ export function shuffleArray(array: any[]) {
     }
 }
 
+/**
+ * True if running in a browser page, as opposed to Node, Deno, or a worker without a DOM.
+ */
+export function isBrowser(): boolean {
+    return typeof document !== "undefined" && typeof location !== "undefined";
+}
+
 /**
  * A sleep function that returns a promise.
  *
@@ -54,4 +61,25 @@ export async function wait(ms: number) {
     return new Promise(resolve => {
         setTimeout(resolve, ms);
     });
-}
\ No newline at end of file
+}
+
+/**
+ * Returns a random 128 bit id encoded as a 32 character hex string.
+ *
+ * Uses crypto.getRandomValues if available, otherwise Math.random.
+ */
+export function randomId(): string {
+    const bytes = new Uint8Array(16);
+    if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = Math.floor(Math.random() * 256);
+        }
+    }
+    let id = "";
+    for (let i = 0; i < bytes.length; i++) {
+        id += (bytes[i] < 16 ? "0" : "") + bytes[i].toString(16);
+    }
+    return id;
+}
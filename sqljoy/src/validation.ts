@@ -1,5 +1,6 @@
-import {isPromise} from "./util";
-import {SQL} from "./sql";
+import {isPromise} from "./util.js";
+import {SQL} from "./sql.js";
+import {coerceParams} from "./schema.js";
 
 /**
  * A validator callback that accumulates errors found in the param object into the ValidationErrors.
@@ -8,6 +9,126 @@ import {SQL} from "./sql";
  */
 export type Validator = (errors: ValidationErrors, params: Record<string, any>) => Promise<void> | void;
 
+/**
+ * FieldError is a validation error with a stable code, e.g. {code: "too_short", min: 8}.
+ * Other properties are params interpolated into the message, see {@link setMessageCatalog}.
+ */
+export interface FieldError {
+    /**
+     * Identifies the kind of error, independent of the language it's displayed in.
+     */
+    code: string;
+    /**
+     * A message to display as is, instead of the one in the message catalog for the code.
+     */
+    message?: string;
+    [param: string]: any;
+}
+
+/**
+ * ValidationDetails are all the errors of a failed validation, with their codes.
+ */
+export interface ValidationDetails {
+    /**
+     * The errors of each invalid param, in the order they were added.
+     */
+    fields: Record<string, FieldError[]>;
+    /**
+     * The errors that don't pertain to any individual param.
+     */
+    nonField: FieldError[];
+}
+
+/**
+ * MessageCatalog maps error codes to messages. A message is either a template, where {name} is replaced
+ * with the param of that name of the error, or a function returning the message for the error.
+ */
+export type MessageCatalog = Record<string, string | ((error: FieldError) => string)>;
+
+/**
+ * The code of errors added as a plain message, which is displayed as is.
+ */
+const INVALID = "invalid";
+
+const defaultMessages: MessageCatalog = {
+    [INVALID]: "is invalid",
+    missing: "param is undefined or missing, use null if you mean null",
+    required: "this field is required",
+    not_string: "must be text",
+    too_short: "must be at least {min} characters",
+    too_long: "must be at most {max} characters",
+    invalid_format: "is not in the expected format",
+    invalid_email: "please enter a valid email address",
+    invalid_uuid: "must be a UUID",
+    not_one_of: "must be one of {values}",
+    not_integer: "must be a whole number",
+    too_small: "must be at least {min}",
+    too_large: "must be at most {max}",
+    invalid_date: "must be a valid date",
+    not_array: "must be a list",
+    invalid_item: "item {index}: {error}",
+    constraint: "violates {constraint}",
+    invalid_type: "must be of type {type}",
+    out_of_range: "is out of range for type {type}",
+};
+
+let messages: MessageCatalog = defaultMessages;
+
+/**
+ * setMessageCatalog sets the messages validation errors are displayed with, e.g. to translate them.
+ * Codes missing from the catalog fall back to the built in English messages, and then to the code itself.
+ *
+ * It applies to errors created afterwards, including those received from the server, so set it
+ * before validating, e.g. when the user's language is known.
+ *
+ * @example Show validation errors in German
+ * ```
+ * setMessageCatalog({
+ *     required: "Dieses Feld ist erforderlich",
+ *     too_short: "muss mindestens {min} Zeichen lang sein",
+ *     not_one_of: error => `muss eines von ${error.values.join(", ")} sein`,
+ * });
+ * ```
+ *
+ * @param catalog the messages by error code, or null to restore the built in English messages
+ */
+export function setMessageCatalog(catalog: MessageCatalog | null) {
+    messages = (catalog === null) ? defaultMessages : Object.assign({}, defaultMessages, catalog);
+}
+
+/**
+ * formatError returns the message to display for the error, using the message catalog.
+ *
+ * @param error the error to format
+ */
+export function formatError(error: FieldError): string {
+    if (error.message) {
+        return error.message;
+    }
+    const message = messages[error.code];
+    if (message === undefined) {
+        return error.code;
+    }
+    if (typeof message === "function") {
+        return message(error);
+    }
+    return message.replace(/\{(\w+)\}/g, (match, name) => {
+        const value = error[name];
+        if (value == null) {
+            return match;
+        }
+        if (Array.isArray(value)) {
+            return value.join(", ");
+        }
+        // A nested error, e.g. of an item of an Array
+        return (typeof value === "object" && typeof value.code === "string") ? formatError(value) : String(value);
+    });
+}
+
+function toFieldError(error: string | FieldError): FieldError {
+    return (typeof error === "string") ? {code: INVALID, message: error} : error;
+}
+
 /**
  * ValidationError is an error thrown when validation fails.
  *
@@ -17,20 +138,69 @@ export type Validator = (errors: ValidationErrors, params: Record<string, any>)
  */
 export class ValidationError extends Error {
     /**
-     * An object mapping the invalid parameter name to an error. If there is
-     * more than one error per parameter, only the first is recorded.
+     * An object mapping the invalid parameter name to the message of its first error.
+     * All the errors are in {@link details}.
      */
     errors: Record<string, string>;
     /**
      * An array of errors that don't pertain to any individual parameter.
      */
     nonFieldErrors: string[];
+    /**
+     * All the errors, with their codes.
+     */
+    details: ValidationDetails;
 
-    constructor(errors: Record<string, string> = {}, nonFieldErrors: string[] = []) {
-        super(validationSummary(errors, nonFieldErrors));
+    /**
+     * @param errors the message of the error of each invalid param
+     * @param nonFieldErrors the errors that don't pertain to any individual param
+     * @param details all the errors with their codes. If given, the messages are formatted from them
+     * with the current message catalog, and errors and nonFieldErrors are ignored.
+     */
+    constructor(errors: Record<string, string> = {}, nonFieldErrors: string[] = [], details: ValidationDetails | null = null) {
+        if (details === null) {
+            const fields: Record<string, FieldError[]> = {};
+            for (let key in errors) {
+                if (errors.hasOwnProperty(key)) {
+                    fields[key] = [toFieldError(errors[key])];
+                }
+            }
+            details = {fields, nonField: nonFieldErrors.map(toFieldError)};
+        } else {
+            nonFieldErrors = details.nonField.map(formatError);
+        }
+        // The message has every error, formatted with the message catalog
+        const messages: Record<string, string[]> = {};
+        errors = {};
+        for (let key in details.fields) {
+            if (details.fields.hasOwnProperty(key) && details.fields[key].length !== 0) {
+                messages[key] = details.fields[key].map(formatError);
+                errors[key] = messages[key][0];
+            }
+        }
+        super(validationSummary(messages, nonFieldErrors));
         this.name = "ValidationError";
         this.errors = errors;
         this.nonFieldErrors = nonFieldErrors;
+        this.details = details;
+    }
+
+    /**
+     * Returns the messages of all the errors of the param, formatted with the current message catalog.
+     *
+     * @param name the name of the param
+     */
+    messagesFor(name: string): string[] {
+        const errors = this.details.fields[name];
+        return (errors === undefined) ? [] : errors.map(formatError);
+    }
+
+    /**
+     * Returns the errors in the format sent by the server, including the codes so the receiver can
+     * format them in its own language.
+     */
+    toJSON(): {errors: Record<string, string>, nonFieldErrors: string[], details: ValidationDetails} {
+        return {errors: this.errors, nonFieldErrors: this.nonFieldErrors, details: this.details};
     }
 }
 
@@ -41,8 +211,8 @@ export class ValidationError extends Error {
  */
 export class ValidationErrors {
     /**
-     * An object mapping the invalid parameter name to an error. If there is
-     * more than one error per parameter, only the first is recorded.
+     * An object mapping the invalid parameter name to the message of its first error.
+     * All the errors are in {@link details}.
      *
      * If an error doesn't pertain to any individual parameter,
      * it's stored in the {@link nonFieldErrors} array.
@@ -52,23 +222,36 @@ export class ValidationErrors {
      * An array of errors that don't pertain to any individual parameter.
      */
     nonFieldErrors: string[];
+    /**
+     * All the errors, with their codes.
+     */
+    details: ValidationDetails;
 
     constructor() {
         this.errors = {};
         this.nonFieldErrors = [];
+        this.details = {fields: {}, nonField: []};
     }
 
     /**
-     * Add an error if there isn't already an error for the passed parameter name.
+     * Add an error for the passed parameter name. A parameter can have more than one error.
      *
      * @param name - the parameter name. If falsey, the error is appended to nonFieldErrors.
-     * @param error - the error to add
+     * @param error - the error to add, either a {@link FieldError} with a code, or a message to display as is
      */
-    add(name: string | undefined, error: string) {
+    add(name: string | undefined, error: string | FieldError) {
+        const fieldError = toFieldError(error);
         if (!name) {
-            this.nonFieldErrors.push(error);
-        } else if (!this.errors[name]) {
-            this.errors[name] = error;
+            this.details.nonField.push(fieldError);
+            this.nonFieldErrors.push(formatError(fieldError));
+            return;
+        }
+        const list = this.details.fields[name];
+        if (list === undefined) {
+            this.details.fields[name] = [fieldError];
+            this.errors[name] = formatError(fieldError);
+        } else {
+            list.push(fieldError);
         }
     }
 
@@ -86,9 +269,16 @@ export class ValidationErrors {
         }
         return false;
     }
+
+    /**
+     * Returns a ValidationError with the accumulated errors.
+     */
+    toError(): ValidationError {
+        return new ValidationError(this.errors, this.nonFieldErrors, this.details);
+    }
 }
 
-function addError(errors: ValidationErrors | null, key: string, err: string): ValidationErrors {
+function addError(errors: ValidationErrors | null, key: string, err: string | FieldError): ValidationErrors {
     if (errors == null) {
         errors = new ValidationErrors();
     }
@@ -96,15 +286,89 @@ function addError(errors: ValidationErrors | null, key: string, err: string): Va
     return errors;
 }
 
+/**
+ * ConstraintError describes the validation error reported when a database constraint is violated,
+ * see {@link constraintErrors}.
+ */
+export interface ConstraintError {
+    /**
+     * The param the error is reported for. If omitted, it's a non-field error.
+     */
+    field?: string;
+    /**
+     * The error code, for a message from the message catalog, see {@link setMessageCatalog}.
+     *
+     * @defaultValue "constraint"
+     */
+    code?: string;
+    /**
+     * The error message, instead of the one in the message catalog for the code.
+     */
+    message?: string;
+}
+
+interface ConstraintValidator extends Validator {
+    constraints: Record<string, ConstraintError>;
+}
+
+/**
+ * constraintErrors maps database constraint names to validation errors. Pass it along with the validators
+ * of a query, and if the query violates one of the constraints, it fails with a {@link ValidationError}
+ * instead of a {@link ServerError}, so it can be shown next to the field like any other validation error.
+ *
+ * It doesn't check anything itself, the constraints are checked by the database when the query executes.
+ *
+ * @example Report a duplicate email address on the email field
+ * ```
+ * await client.executeQuery(sql`INSERT INTO users (email) VALUES (${email})`, {},
+ *     param("email", required(), email()),
+ *     constraintErrors({users_email_key: {field: "email", message: "email already taken"}}));
+ * ```
+ *
+ * @param constraints the error to report for each constraint, by constraint name
+ */
+export function constraintErrors(constraints: Record<string, ConstraintError>): Validator {
+    const validator = (() => {}) as unknown as ConstraintValidator;
+    validator.constraints = constraints;
+    return validator;
+}
+
+/**
+ * @internal
+ * Returns the ValidationError a violation of the constraint maps to with {@link constraintErrors}
+ * in the validators, or null if it isn't mapped.
+ *
+ * @param validators the validators of the query
+ * @param constraint the name of the violated constraint
+ */
+export function mapConstraintError(validators: Validator[], constraint: string | null | undefined): ValidationError | null {
+    if (!constraint) {
+        return null;
+    }
+    for (const validator of validators) {
+        const constraints = (validator as ConstraintValidator).constraints;
+        if (constraints !== undefined && constraints.hasOwnProperty(constraint)) {
+            const {field, code, message} = constraints[constraint];
+            const errors = new ValidationErrors();
+            errors.add(field, {code: code || "constraint", message, constraint});
+            return errors.toError();
+        }
+    }
+    return null;
+}
+
 /**
  * validate is used by executeQuery to validate the query parameters with the
- * passed validator functions.
+ * passed validator functions. If the query declares a {@link ParamSchema}, the
+ * parameters are coerced to their types first.
  *
  * It can be useful to call validate directly in cases where you want to validate
  * the user input (parameters) without executing the query yet. For example, if
  * you only have partial input or you're validating it as the user enters it.
  *
- * @throws {@link ValidationError} if any of the validators fail.
+ * @throws {@link ValidationError} if any of the validators fail, or a parameter can't be coerced to its type.
+ *
+ * @returns the parameters, with any changes made by the schema and the validators
  *
  * @param query the SQL query with possible parameters to validate
  * @param params will be combined overtop of query.params
@@ -123,11 +387,17 @@ export async function validate(query: SQL, params: Record<string, any> | undefin
     for (let param in params) {
         if (params.hasOwnProperty(param)) {
             if (params[param] === undefined) {
-                errors = addError(errors, param, "param is undefined or missing, use null if you mean null");
+                errors = addError(errors, param, {code: "missing"});
             }
         }
     }
 
+    if (query.schema) {
+        // The validators see the params converted to their declared types
+        errors = errors || new ValidationErrors();
+        params = coerceParams(params, query.schema, errors);
+    }
+
     const promises: Promise<void>[] = [];
     for (let validator of validators) {
         const result = validator(errors!, params);
@@ -139,21 +409,25 @@ export async function validate(query: SQL, params: Record<string, any> | undefin
         await Promise.all(promises);
     }
     if (errors !== null && errors.hasErrors()) {
-        throw new ValidationError(errors.errors, errors.nonFieldErrors);
+        throw errors.toError();
     }
     return params;
 }
 
 /**
  * Join all the errors into a single string by field separated with the join param.
+ * A field with several errors has one entry for each of them.
  *
- * @param errors the errors by field name
+ * @param errors the error or errors by field name
  * @param nonFieldErrors non field errors - appended to the end, separated with join string
  * @param join the string to join each error with, defaults to "\n"
  */
-export function validationSummary(errors: Record<string, string> = {}, nonFieldErrors: string[] = [], join="\n"): string {
+export function validationSummary(errors: Record<string, string | string[]> = {}, nonFieldErrors: string[] = [], join="\n"): string {
     const names = Object.keys(errors);
     names.sort();
-    const fieldErrors = names.map((k: string) => `${k}: ${errors[k]}`).join(join);
+    const fieldErrors = names.map((k: string) => {
+        const messages = errors[k];
+        return (Array.isArray(messages) ? messages : [messages]).map(m => `${k}: ${m}`).join(join);
+    }).join(join);
     return fieldErrors + join + join + nonFieldErrors.join(join);
 }
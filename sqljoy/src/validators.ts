@@ -0,0 +1,244 @@
+import {isPromise, isString} from "./util.js";
+import {FieldError, Validator} from "./validation.js";
+
+/**
+ * The result of a {@link Check}: an error, a message to display as is, or nothing if the value is valid.
+ */
+export type CheckResult = FieldError | string | null | undefined | void;
+
+/**
+ * Check validates the value of a single param, returning an error if it's invalid, or nothing if it's valid.
+ * It may return a promise for async checks, e.g. to look something up with a query.
+ *
+ * Checks are combined into a {@link Validator} for a param with {@link param}.
+ */
+export type Check = (value: any, params: Record<string, any>) => CheckResult | Promise<CheckResult>;
+
+/**
+ * param returns a Validator that runs the checks on the value of the named param, in order,
+ * and adds the error of each one that fails.
+ *
+ * Unless one of the checks is {@link required}, a null value is valid and the other checks are skipped.
+ * If it's required and missing, the other checks are skipped too.
+ * The validator runs in the browser and again on the server, with the same result.
+ *
+ * @remarks The built in checks report errors with a code, e.g. {code: "too_short", min: 8}, and display
+ * them with the message catalog, see {@link setMessageCatalog}. Pass a message to a check to display that instead.
+ *
+ * @example Validate a sign up form
+ * ```
+ * await client.executeQuery(signUp, {}, param("email", required(), email()),
+ *                                       param("name", required(), string({max: 100})),
+ *                                       param("plan", oneOf(["free", "pro"])));
+ * ```
+ *
+ * @param name the name of the param
+ * @param checks the checks to run on its value
+ */
+export function param(name: string, ...checks: Check[]): Validator {
+    return (errors, params) => runChecks(params[name], params, checks, error => errors.add(name, error));
+}
+
+/**
+ * Run the checks in order, and pass the errors to onError. A failed required check stops the rest.
+ * It stays synchronous until a check returns a promise.
+ */
+function runChecks(value: any, params: Record<string, any>, checks: Check[], onError: (error: string | FieldError) => void, start: number = 0): Promise<void> | void {
+    if (value == null && !checks.some(isRequired)) {
+        return;
+    }
+    for (let i = start; i < checks.length; i++) {
+        const result = checks[i](value, params);
+        if (isPromise(result)) {
+            return (result as Promise<CheckResult>).then(error => {
+                if (!error || !isRequired(checks[i])) {
+                    if (error) {
+                        onError(error);
+                    }
+                    return runChecks(value, params, checks, onError, i + 1);
+                }
+                onError(error);
+            });
+        }
+        if (result) {
+            onError(result);
+            if (isRequired(checks[i])) {
+                return;
+            }
+        }
+    }
+}
+
+function isRequired(check: Check): boolean {
+    return (check as any).required === true;
+}
+
+/**
+ * Returns the error with the code and params, displayed with the message instead of the message catalog if it's given.
+ */
+function fail(code: string, message: string | undefined, params: Record<string, any> = {}): FieldError {
+    return Object.assign({code}, params, message ? {message} : {});
+}
+
+/**
+ * required fails if the value is null or an empty string, with code "required".
+ *
+ * @param message the error message, instead of the one in the message catalog
+ */
+export function required(message?: string): Check {
+    const check = (value: any) => (value == null || value === "") ? fail("required", message) : null;
+    // Marks it for param, which otherwise skips the checks for null values
+    (check as any).required = true;
+    return check;
+}
+
+/**
+ * string fails if the value isn't a string (code "not_string"), or its length is outside the bounds
+ * (codes "too_short" with min, and "too_long" with max).
+ *
+ * @param options the minimum and maximum length (inclusive), and the error message instead of the one in the message catalog
+ */
+export function string(options: {min?: number, max?: number, message?: string} = {}): Check {
+    const {min, max, message} = options;
+    return (value: any) => {
+        if (!isString(value)) {
+            return fail("not_string", message);
+        }
+        if (min !== undefined && value.length < min) {
+            return fail("too_short", message, {min});
+        }
+        if (max !== undefined && value.length > max) {
+            return fail("too_long", message, {max});
+        }
+        return null;
+    };
+}
+
+/**
+ * regex fails if the value isn't a string matching the pattern, with code "invalid_format".
+ *
+ * @param pattern the regular expression to test the value with
+ * @param message the error message, instead of the one in the message catalog
+ */
+export function regex(pattern: RegExp, message?: string): Check {
+    return matches(pattern, "invalid_format", message);
+}
+
+function matches(pattern: RegExp, code: string, message: string | undefined): Check {
+    return (value: any) => {
+        // A global or sticky pattern would continue from the last match
+        pattern.lastIndex = 0;
+        return (isString(value) && pattern.test(value)) ? null : fail(code, message);
+    };
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+/**
+ * email fails if the value doesn't look like an email address, with code "invalid_email". It only checks
+ * the form of x@y.ab, sending an email is the only way to know that the address exists.
+ *
+ * @param message the error message, instead of the one in the message catalog
+ */
+export function email(message?: string): Check {
+    return matches(EMAIL_RE, "invalid_email", message);
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * uuid fails if the value isn't a UUID in the standard hyphenated form, with code "invalid_uuid".
+ *
+ * @param message the error message, instead of the one in the message catalog
+ */
+export function uuid(message?: string): Check {
+    return matches(UUID_RE, "invalid_uuid", message);
+}
+
+/**
+ * oneOf fails if the value isn't one of the allowed values, compared with ===, with code "not_one_of" and the values.
+ *
+ * @param values the allowed values
+ * @param message the error message, instead of the one in the message catalog
+ */
+export function oneOf(values: any[], message?: string): Check {
+    return (value: any) => (values.indexOf(value) >= 0) ? null : fail("not_one_of", message, {values});
+}
+
+/**
+ * integer fails if the value isn't an integer, a number or BigInt (code "not_integer"), or it's outside
+ * the bounds (codes "too_small" with min, and "too_large" with max).
+ *
+ * @param options the minimum and maximum value (inclusive), and the error message instead of the one in the message catalog
+ */
+export function integer(options: {min?: number, max?: number, message?: string} = {}): Check {
+    const {min, max, message} = options;
+    return (value: any) => {
+        if (!Number.isInteger(value) && typeof value !== "bigint") {
+            return fail("not_integer", message);
+        }
+        if (min !== undefined && value < min) {
+            return fail("too_small", message, {min});
+        }
+        if (max !== undefined && value > max) {
+            return fail("too_large", message, {max});
+        }
+        return null;
+    };
+}
+
+/**
+ * date fails if the value isn't a valid Date, or a string the Date can parse (e.g. ISO 8601), with code "invalid_date".
+ *
+ * @param message the error message, instead of the one in the message catalog
+ */
+export function date(message?: string): Check {
+    return (value: any) => {
+        const time = (value instanceof Date) ? value.getTime() : isString(value) ? Date.parse(value) : NaN;
+        return isNaN(time) ? fail("invalid_date", message) : null;
+    };
+}
+
+/**
+ * arrayOf fails if the value isn't an Array (code "not_array"), or if any of its items fails the checks.
+ * Then the error has code "invalid_item", the index (from 1) of the first item that failed, and its first error.
+ *
+ * @param checks the checks to run on each item
+ */
+export function arrayOf(...checks: Check[]): Check {
+    return (value: any, params: Record<string, any>) => {
+        if (!Array.isArray(value)) {
+            return fail("not_array", undefined);
+        }
+        const errors: (FieldError | null)[] = value.map(() => null);
+        const pending: Promise<void>[] = [];
+        value.forEach((item, i) => {
+            const result = runChecks(item, params, checks, error => {
+                errors[i] = errors[i] || {code: "invalid_item", index: i + 1, error: isString(error) ? {code: "invalid", message: error} : error};
+            });
+            if (isPromise(result)) {
+                pending.push(result as Promise<void>);
+            }
+        });
+        // Report the first item that failed, regardless of the order async checks complete in
+        const first = () => errors.find(e => e !== null) || null;
+        return (pending.length !== 0) ? Promise.all(pending).then(first) : first();
+    };
+}
+
+/**
+ * custom wraps a function as a check, for checks that aren't built in. The function can be async.
+ *
+ * @example Check that a username isn't taken
+ * ```
+ * param("username", required(), custom(async username => {
+ *     const rows = await client.executeQuery(sql`SELECT 1 FROM users WHERE username = ${username}`);
+ *     return rows.length !== 0 ? "that username is taken" : null;
+ * }))
+ * ```
+ *
+ * @param check returns an error or a message if the value is invalid
+ */
+export function custom(check: Check): Check {
+    return check;
+}